@@ -0,0 +1,129 @@
+import { z } from 'zod';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import { isSupportedDocument, SUPPORTED_EXTENSIONS } from '../extract';
+import type {
+    ApiErrorCode,
+    ApiErrorResponse,
+    ApiIssue,
+    BookOutline,
+    ClaimRequest,
+    DocumentDigest,
+    DocumentUploadForm,
+    LocationRequest,
+    OnboardingRequest,
+    StartBookRequest
+} from './types';
+
+export * from './types';
+
+// Thrown from routes and middleware; app.onError turns it into an ApiErrorResponse
+export class ApiError extends Error {
+    constructor(readonly status: ContentfulStatusCode, readonly code: ApiErrorCode, message: string, readonly issues?: ApiIssue[]) {
+        super(message);
+        this.name = "ApiError";
+    }
+}
+
+export const errorResponse = (code: ApiErrorCode, message: string, issues?: ApiIssue[]): ApiErrorResponse => ({
+    success: false,
+    error: issues?.length ? { code, message, issues } : { code, message }
+});
+
+// ==========================================
+// Request schemas (typed against ./types so the two can't drift)
+// ==========================================
+const text = (name: string) => z.string({ required_error: `${name} is required.` }).trim().min(1, `${name} is required.`);
+const optionalDate = z.string().trim().nullish().transform(v => v || null);
+
+export const onboardingSchema: z.ZodType<OnboardingRequest> = z.object({
+    name: text("Name"),
+    dob: text("Date of birth"),
+    birthLocation: z.object({
+        lat: z.number(),
+        lng: z.number(),
+        label: z.string().optional()
+    }).nullish()
+});
+
+export const claimSchema: z.ZodType<ClaimRequest> = z.object({
+    userId: text("User id"),
+    bookId: text("Book id")
+});
+
+export const locationSchema: z.ZodType<LocationRequest> = z.object({
+    lat: z.number({ invalid_type_error: "Latitude must be a number." }),
+    lng: z.number({ invalid_type_error: "Longitude must be a number." }),
+    label: text("A place name"),
+    dateStart: optionalDate,
+    dateEnd: optionalDate
+}).refine(l => !l.dateStart || !l.dateEnd || l.dateEnd >= l.dateStart, { message: "A move can't end before it starts.", path: ["dateEnd"] });
+
+// Originals are kept in R2 and re-read for re-extraction, so keep them to what a worker can hold in memory
+export const MAX_DOCUMENT_BYTES = 25 * 1024 * 1024;
+
+// Form fields arrive as strings
+export const documentUploadSchema: z.ZodType<DocumentUploadForm, z.ZodTypeDef, unknown> = z.object({
+    file: z.instanceof(File, { message: "A file is required." })
+        // Its name becomes part of the R2 key, so no path separators
+        .refine(file => !/[\\/]/.test(file.name) && file.name.trim() && file.name !== "." && file.name !== "..", "Filename can't contain path separators.")
+        .refine(file => isSupportedDocument(file.name), `Unsupported file type. Use one of ${SUPPORTED_EXTENSIONS.join(', ')}.`)
+        .refine(file => file.size <= MAX_DOCUMENT_BYTES, `Files can be at most ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB.`),
+    replace: z.enum(["true", "false"]).optional().transform(v => v === "true")
+});
+
+export const startBookSchema: z.ZodType<StartBookRequest> = z.object({
+    title: z.string().trim().optional()
+});
+
+// What save_outline must give back before we store it as a book
+export const outlineSchema: z.ZodType<BookOutline> = z.object({
+    title: text("Title"),
+    chapters: z.array(z.object({
+        index: z.number().int().positive(),
+        title: text("Chapter title"),
+        summary: z.string()
+    })).min(1)
+});
+
+// What save_digest must give back. Missing lists and dates are tolerated; the summary is not.
+export const digestSchema: z.ZodType<DocumentDigest, z.ZodTypeDef, unknown> = z.object({
+    summary: text("Summary"),
+    periodStart: optionalDate,
+    periodEnd: optionalDate,
+    people: z.array(z.object({ name: text("Name"), relation: z.string().trim().default("") })).default([]),
+    places: z.array(z.string().trim().min(1)).default([]),
+    events: z.array(z.object({ date: optionalDate, description: text("Event") })).default([])
+});
+
+const toIssues = (error: z.ZodError): ApiIssue[] => error.issues.map(issue => ({ path: issue.path.join("."), message: issue.message }));
+
+// Parsed JSON body of the request, or a VALIDATION_FAILED ApiError
+export async function parseBody<T>(req: { json(): Promise<unknown> }, schema: z.ZodType<T, z.ZodTypeDef, unknown>): Promise<T> {
+    let body: unknown;
+    try {
+        body = await req.json();
+    } catch {
+        throw new ApiError(400, 'VALIDATION_FAILED', "Request body must be JSON.");
+    }
+    return validate(body, schema);
+}
+
+// Same for multipart/form-data bodies
+export async function parseForm<T>(req: { parseBody(): Promise<Record<string, unknown>> }, schema: z.ZodType<T, z.ZodTypeDef, unknown>): Promise<T> {
+    let body: unknown;
+    try {
+        body = await req.parseBody();
+    } catch {
+        throw new ApiError(400, 'VALIDATION_FAILED', "Request body must be multipart/form-data.");
+    }
+    return validate(body, schema);
+}
+
+function validate<T>(body: unknown, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T {
+    const result = schema.safeParse(body);
+    if (!result.success) {
+        const issues = toIssues(result.error);
+        throw new ApiError(400, 'VALIDATION_FAILED', issues[0]?.message || "Invalid request body.", issues);
+    }
+    return result.data;
+}
@@ -0,0 +1,29 @@
+// The notes model the notepad shares with the session (see ../notes). Plain TypeScript with no worker
+// APIs, so the frontend imports it as it is.
+
+export interface NoteItem {
+    id: string;
+    content: string;
+    source: 'ai' | 'user';
+    chapterIndex: number;
+    createdAt: number; // 0 for notes taken before times were kept
+    updatedAt: number;
+    tags: string[];
+    messageId?: string; // the chat message the note was taken from
+}
+
+// What an operation did, as every connected notepad applies it: a note (re)placed whole after another
+// (null for the top), or removed. Applying a change twice gives the same notes, and changes only name the
+// notes they touch, so they merge with whatever else happened in between.
+export type NoteChange =
+    | { type: 'put'; note: NoteItem; afterId: string | null }
+    | { type: 'delete'; id: string };
+
+// An unknown afterId places the note at the bottom
+export function applyNoteChange(notes: NoteItem[], change: NoteChange): NoteItem[] {
+    const id = change.type === 'put' ? change.note.id : change.id;
+    const rest = notes.filter(n => n.id !== id);
+    if (change.type === 'delete') return rest;
+    const at = change.afterId === null ? 0 : (rest.findIndex(n => n.id === change.afterId) + 1 || rest.length);
+    return [...rest.slice(0, at), change.note, ...rest.slice(at)];
+}
@@ -0,0 +1,149 @@
+// Request and response bodies of the REST API.
+// Plain types with no runtime imports, so the frontend can type-check its calls against them directly.
+
+export type ApiErrorCode =
+    | 'VALIDATION_FAILED'
+    | 'UNAUTHORIZED'
+    | 'FORBIDDEN'
+    | 'NOT_FOUND'
+    | 'CONFLICT'
+    | 'INTERNAL';
+
+export interface ApiIssue {
+    path: string; // dotted path into the request body, "" for the body itself
+    message: string;
+}
+
+// Every failed request answers with this envelope
+export interface ApiErrorResponse {
+    success: false;
+    error: {
+        code: ApiErrorCode;
+        message: string;
+        issues?: ApiIssue[];
+    };
+}
+
+export interface SuccessResponse {
+    success: true;
+}
+
+export type ApiResponse<T extends SuccessResponse> = T | ApiErrorResponse;
+
+// ==========================================
+// Onboarding
+// ==========================================
+export interface OnboardingRequest {
+    name: string;
+    dob: string;
+    birthLocation?: { lat: number; lng: number; label?: string } | null;
+}
+
+export interface OnboardingResponse extends SuccessResponse {
+    userId: string;
+    token: string; // device access token, shown only once
+}
+
+// Users onboarded before access tokens have none; the browser that made their book claims one, once
+export interface ClaimRequest {
+    userId: string;
+    bookId: string;
+}
+
+export interface ClaimResponse extends SuccessResponse {
+    token: string;
+}
+
+// ==========================================
+// Life Timeline
+// ==========================================
+// Dates are free-form ("1994", "1994-06", "1994-06-01") so they read well in prompts
+export interface LocationRequest {
+    lat: number;
+    lng: number;
+    label: string;
+    dateStart?: string | null;
+    dateEnd?: string | null; // null while they still live there
+}
+
+export interface Location {
+    id: string;
+    lat: number;
+    lng: number;
+    label: string;
+    date_start: string | null;
+    date_end: string | null;
+}
+
+export interface LocationListResponse extends SuccessResponse {
+    locations: Location[];
+}
+
+export interface LocationResponse extends SuccessResponse {
+    location: Location;
+}
+
+// ==========================================
+// Documents
+// ==========================================
+export interface DocumentInfo {
+    name: string; // filename, unique per user
+    size: number; // bytes of the original file, or of the text for documents uploaded before originals were kept
+    uploadedAt: number; // when the text was last extracted
+    pageCount: number | null; // null for formats without pages
+    hasOriginal: boolean; // whether it can be re-extracted
+}
+
+// What the biographer reads instead of the full text, written by the model when a document is added
+export interface DocumentDigest {
+    summary: string;
+    periodStart: string | null; // free-form dates of the span of life the document covers
+    periodEnd: string | null;
+    people: { name: string; relation: string }[];
+    places: string[];
+    events: { date: string | null; description: string }[];
+}
+
+// Sent as multipart/form-data: the original file, extracted on the server
+export interface DocumentUploadForm {
+    file: File;
+    replace?: boolean; // overwrite a document with the same name instead of failing with CONFLICT
+}
+
+export interface DocumentUploadResponse extends SuccessResponse {
+    key: string;
+    document: DocumentInfo;
+}
+
+export interface DocumentListResponse extends SuccessResponse {
+    documents: DocumentInfo[];
+}
+
+export interface DocumentResponse extends SuccessResponse {
+    document: DocumentInfo;
+    text: string;
+    digest: DocumentDigest | null; // null until one could be written
+}
+
+// ==========================================
+// Books
+// ==========================================
+export interface OutlineChapter {
+    index: number;
+    title: string;
+    summary: string;
+}
+
+export interface BookOutline {
+    title: string;
+    chapters: OutlineChapter[];
+}
+
+export interface StartBookRequest {
+    title?: string;
+}
+
+export interface StartBookResponse extends SuccessResponse {
+    bookId: string;
+    outline: BookOutline;
+}
@@ -0,0 +1,71 @@
+// Anonymous device ownership. Onboarding hands the browser a random secret, signed together with the
+// user id: `<userId>.<secret>.<signature>`. The signature lets us reject forged tokens without a lookup,
+// and the stored hash of the secret ties the token to the device it was issued to.
+
+export interface AuthEnv {
+    DB: D1Database;
+    SESSION_SIGNING_KEY: string;
+}
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: ArrayBuffer | Uint8Array) =>
+    btoa(String.fromCharCode(...new Uint8Array(bytes))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string) => {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, ch => ch.charCodeAt(0));
+};
+
+const signingKey = (secret: string) => {
+    if (!secret) throw new Error("SESSION_SIGNING_KEY is not configured.");
+    return crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign", "verify"]);
+};
+
+const hashSecret = async (secret: string) => toBase64Url(await crypto.subtle.digest("SHA-256", encoder.encode(secret)));
+
+// A fresh device secret for a user. Store `secretHash` on the user row and give `token` to the browser.
+export async function issueAccessToken(env: AuthEnv, userId: string): Promise<{ token: string; secretHash: string }> {
+    const secret = toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+    const payload = `${userId}.${secret}`;
+    const signature = await crypto.subtle.sign("HMAC", await signingKey(env.SESSION_SIGNING_KEY), encoder.encode(payload));
+    return { token: `${payload}.${toBase64Url(signature)}`, secretHash: await hashSecret(secret) };
+}
+
+// The user the token belongs to, or null if it is malformed, forged or no longer the user's device secret
+export async function verifyAccessToken(env: AuthEnv, token: string | null | undefined): Promise<string | null> {
+    const [userId, secret, signature, ...rest] = (token || "").split(".");
+    if (!userId || !secret || !signature || rest.length) return null;
+
+    let valid = false;
+    try {
+        valid = await crypto.subtle.verify("HMAC", await signingKey(env.SESSION_SIGNING_KEY), fromBase64Url(signature), encoder.encode(`${userId}.${secret}`));
+    } catch (e) {
+        if ((e as Error).message.includes("SESSION_SIGNING_KEY")) throw e;
+        return null; // signature wasn't base64
+    }
+    if (!valid) return null;
+
+    const user = await env.DB.prepare("SELECT secret_hash FROM users WHERE id = ?").bind(userId).first<{ secret_hash: string | null }>();
+    if (!user?.secret_hash || user.secret_hash !== await hashSecret(secret)) return null;
+    return userId;
+}
+
+// Users created before access tokens have no device secret and could never get a token. The first caller who
+// names one of their books (ids only the browser that made it knows) gets one; from then on they are like any other user.
+export async function claimLegacyUser(env: AuthEnv, userId: string, bookId: string): Promise<string | null> {
+    const user = await env.DB.prepare("SELECT secret_hash FROM users WHERE id = ?").bind(userId).first<{ secret_hash: string | null }>();
+    if (!user || user.secret_hash || !await ownsBook(env, userId, bookId)) return null;
+    const { token, secretHash } = await issueAccessToken(env, userId);
+    const claimed = await env.DB.prepare("UPDATE users SET secret_hash = ? WHERE id = ? AND secret_hash IS NULL").bind(secretHash, userId).run();
+    return claimed.meta.changes ? token : null;
+}
+
+// Whether the token's owner is the owner of the book
+export async function ownsBook(env: AuthEnv, userId: string, bookId: string): Promise<boolean> {
+    const book = await env.DB.prepare("SELECT user_id FROM books WHERE id = ?").bind(bookId).first<{ user_id: string }>();
+    return book?.user_id === userId;
+}
+
+// Authorization: Bearer <token>
+export const bearerToken = (header: string | undefined) => header?.match(/^Bearer\s+(.+)$/i)?.[1] ?? null;
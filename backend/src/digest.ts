@@ -0,0 +1,94 @@
+import type { LLMProvider, ToolDeclaration } from './llm';
+import { digestSchema, type DocumentDigest } from './api';
+
+// Per-document digests: a short structured account of each document (summary, the span of life it covers,
+// people, places and events), written once when the document is added and kept in D1 (document_digests).
+// Outline generation and the session read digests; raw passages are only pulled in where there is no digest
+// or the prompt needs the document's own words.
+
+// Enough for resumes and long journals alike; the rest of a very long document is only reachable through retrieval
+const DIGEST_INPUT_CHARS = 200000;
+
+const saveDigestTool: ToolDeclaration = {
+    name: "save_digest",
+    description: "Saves the digest of one document.",
+    parameters: {
+        type: "OBJECT",
+        properties: {
+            summary: { type: "STRING", description: "What the document is and what it tells about the subject's life, in a few sentences." },
+            periodStart: { type: "STRING", description: "Earliest date the document covers (e.g. 1994 or 1994-06), empty if unknown." },
+            periodEnd: { type: "STRING", description: "Latest date the document covers, empty if unknown." },
+            people: {
+                type: "ARRAY",
+                items: {
+                    type: "OBJECT",
+                    properties: {
+                        name: { type: "STRING" },
+                        relation: { type: "STRING", description: "Who they are to the subject." }
+                    },
+                    required: ["name", "relation"]
+                }
+            },
+            places: { type: "ARRAY", items: { type: "STRING" } },
+            events: {
+                type: "ARRAY",
+                items: {
+                    type: "OBJECT",
+                    properties: {
+                        date: { type: "STRING" },
+                        description: { type: "STRING" }
+                    },
+                    required: ["description"]
+                }
+            }
+        },
+        required: ["summary", "people", "places", "events"]
+    }
+};
+
+// Asks the model for a digest of the text. Null if it gave back nothing usable.
+export async function generateDigest(llm: LLMProvider, document: string, text: string): Promise<DocumentDigest | null> {
+    const excerpt = text.length > DIGEST_INPUT_CHARS ? `${text.slice(0, DIGEST_INPUT_CHARS)}\n[...truncated]` : text;
+    const prompt = `You are helping a biographer who will write the autobiography of the person this document is about.
+    Read the document "${document}" and record what it tells about their life.
+    Keep names, dates and places exactly as written. Do not invent anything the document does not say.
+    You MUST call the 'save_digest' function to return the result.
+
+    === DOCUMENT ===
+${excerpt}`;
+
+    const response = await llm.generate({ messages: [{ role: 'user', content: prompt }], tools: [saveDigestTool], toolChoice: 'required' });
+    const parsed = digestSchema.safeParse(response.functionCalls.find(call => call.name === 'save_digest')?.args);
+    return parsed.success ? parsed.data : null;
+}
+
+export const saveDigest = (db: D1Database, userId: string, document: string, digest: DocumentDigest) =>
+    db.prepare("INSERT OR REPLACE INTO document_digests (user_id, document, digest_json, created_at) VALUES (?, ?, ?, ?)")
+        .bind(userId, document, JSON.stringify(digest), Date.now()).run();
+
+export const removeDigest = (db: D1Database, userId: string, document: string) =>
+    db.prepare("DELETE FROM document_digests WHERE user_id = ? AND document = ?").bind(userId, document).run();
+
+export async function loadDigest(db: D1Database, userId: string, document: string): Promise<DocumentDigest | null> {
+    const row = await db.prepare("SELECT digest_json FROM document_digests WHERE user_id = ? AND document = ?").bind(userId, document).first<{ digest_json: string }>();
+    return row ? JSON.parse(row.digest_json) : null;
+}
+
+// Every digest of the user's documents, by document name
+export async function loadDigests(db: D1Database, userId: string): Promise<Map<string, DocumentDigest>> {
+    const { results } = await db.prepare("SELECT document, digest_json FROM document_digests WHERE user_id = ? ORDER BY document")
+        .bind(userId).all<{ document: string; digest_json: string }>();
+    return new Map(results.map(row => [row.document, JSON.parse(row.digest_json)]));
+}
+
+export const formatDigest = (document: string, digest: DocumentDigest) => {
+    const period = digest.periodStart || digest.periodEnd ? ` (${digest.periodStart || "?"} to ${digest.periodEnd || "?"})` : "";
+    const lines = [`--- Digest of ${document}${period} ---`, digest.summary];
+    if (digest.people.length) lines.push(`People: ${digest.people.map(p => p.relation ? `${p.name} (${p.relation})` : p.name).join(", ")}`);
+    if (digest.places.length) lines.push(`Places: ${digest.places.join(", ")}`);
+    if (digest.events.length) lines.push("Events:", ...digest.events.map(e => `- ${e.date ? `${e.date}: ` : ""}${e.description}`));
+    return lines.join("\n");
+};
+
+export const formatDigests = (digests: Map<string, DocumentDigest>) =>
+    [...digests].map(([document, digest]) => formatDigest(document, digest)).join("\n\n");
@@ -1,4 +1,11 @@
 import { DurableObject } from "cloudflare:workers";
+import { createLLMProvider, type LLMProvider, type ToolDeclaration } from "../llm";
+import { ownsBook, verifyAccessToken } from "../auth";
+import { formatPassages, searchDocuments, syncDocumentIndex, type DocumentPassage } from "../retrieval";
+import { formatDigests, loadDigests } from "../digest";
+import { FACT_TOOLS, factFromCall, formatFacts, interviewSource, isFactTool, loadFacts, recordFact } from "../facts";
+import { RECORD_PERSON_TOOL, formatPeople, loadPeople, recordPerson } from "../people";
+import { NOTE_OP_MESSAGES, applyNoteOp, archiveChapterNotes, formatArchivedNotes, loadArchivedNotes, normalizeTags, notesForPrompt, parseNoteOp, searchArchivedNotes, staleNoteEdit, withNoteDefaults, type NoteItem, type NoteOp } from "../notes";
 
 interface Env {
     DB: D1Database;
@@ -7,20 +14,150 @@ interface Env {
     CF_GATEWAY_ID: string;
     GEMINI_API_KEY: string;
     CF_AIG_TOKEN?: string;
+    LLM_PROVIDER?: string;
+    SESSION_SIGNING_KEY: string;
 }
 
 interface ThreadMessage {
+    id?: string; // chat messages only; notes link to them
     role: 'user' | 'assistant' | 'system' | 'tool';
     content?: string;
     functionCall?: any;
     functionResponse?: any;
 }
 
-interface NoteItem {
-    id: string;
+type SessionMode = 'interview' | 'writing';
+
+// A completed chapter reopened for re-interview or rewrite.
+// The in-progress chapter's working state is stashed and restored when the revision ends.
+interface ChapterRevision {
+    chapterIndex: number;
+    instruction: string;
+    previousContent: string;
+    stash: {
+        history: ThreadMessage[];
+        notes: NoteItem[];
+        currentDraft: string;
+        mode: SessionMode;
+        currentChapterIndex: number;
+    };
+}
+
+// Working state of a chapter that was started and then left for another one, kept under parkedKey(index)
+interface ParkedChapter {
+    history: ThreadMessage[];
+    notes: NoteItem[];
+    currentDraft: string;
+    mode: SessionMode;
+}
+
+// Undo entries of every chapter, newest last. Each undoes one change to its chapter's notes, so changes
+// made before leaving a chapter can still be undone on coming back.
+interface NoteUndo {
+    chapterIndex: number;
+    op: NoteOp;
+}
+
+const NOTE_UNDO_LIMIT = 50;
+
+const PARKED_PREFIX = "chapter:";
+const parkedKey = (index: number) => `${PARKED_PREFIX}${index}`;
+
+// One chapter of the manuscript as shown in the editor. 'draft' is the chapter currently being written or revised.
+interface ManuscriptChapter {
+    index: number;
+    title: string;
     content: string;
+    status: 'completed' | 'draft';
 }
 
+type VersionSource = 'ai' | 'edit' | 'passage' | 'restore';
+
+// What the session knows about the subject, kept under "subjectContext" until the worker invalidates it.
+// Holds the passages of the last query too, since the writer asks the same question as the final interview turn.
+interface SubjectContext {
+    profile: string; // name, birth date, residences and document digests
+    digested: string[]; // documents the profile has a digest of
+    query: string | null; // "<RawText>:<query>" the passages were retrieved for
+    passages: DocumentPassage[];
+}
+
+// Which documents a prompt reads raw passages from: only those without a digest, or all of them
+// when it needs the documents' own words (names, dates, quotes) to write from
+type RawText = 'fallback' | 'all';
+
+interface OutlineChapter {
+    index: number;
+    title: string;
+    summary: string;
+}
+
+// Changes to the remaining chapters suggested after a chapter is finished, waiting for the user's approval
+interface OutlineProposal {
+    afterChapter: number;
+    reason: string;
+    chapters: { index?: number; title: string; summary: string }[]; // the whole outline; entries without an index are new
+    fixed: number[]; // chapters the proposal was not allowed to touch
+}
+
+// Checks an edited outline against the current one and renumbers it by position.
+// Locked chapters (already written) must come back unchanged at their own index; pinned ones
+// may be renamed but not moved or removed. Others can be freely reordered, dropped or added
+// (entries without an index). moves maps each surviving chapter's old index to its new one.
+const validateOutline = (current: OutlineChapter[], proposed: unknown, locked: Set<number>, pinned: Set<number>) => {
+    if (!Array.isArray(proposed) || proposed.length === 0) throw new Error("The outline needs at least one chapter.");
+
+    const known = new Map(current.map(c => [c.index, c]));
+    const seen = new Set<number>();
+    const chapters = proposed.map((item: any, position) => {
+        const title = typeof item?.title === 'string' ? item.title.trim() : "";
+        if (!title) throw new Error(`Chapter ${position + 1} needs a title.`);
+        const summary = typeof item?.summary === 'string' ? item.summary.trim() : "";
+
+        if (item.index !== undefined && item.index !== null) {
+            if (!known.has(item.index)) throw new Error(`Chapter ${item.index} is not in the outline.`);
+            if (seen.has(item.index)) throw new Error(`Chapter ${item.index} appears twice.`);
+            seen.add(item.index);
+        }
+        return { from: item.index as number | undefined, title, summary };
+    });
+
+    for (const index of [...locked, ...pinned]) {
+        const original = known.get(index);
+        if (!original) continue;
+        const kept = chapters[index - 1];
+        if (kept?.from !== index) throw new Error(`Chapter ${index} ("${original.title}") can't be moved or removed.`);
+        if (locked.has(index) && (kept.title !== original.title.trim() || kept.summary !== (original.summary || "").trim())) {
+            throw new Error(`Chapter ${index} ("${original.title}") is already written and can't be edited here.`);
+        }
+    }
+
+    const moves = new Map<number, number>();
+    chapters.forEach((c, position) => { if (c.from !== undefined) moves.set(c.from, position + 1); });
+    return { chapters: chapters.map((c, position) => ({ index: position + 1, title: c.title, summary: c.summary })), moves };
+};
+
+const joinChapters = (...parts: string[]) => parts.filter(Boolean).join("\n\n");
+
+// Finds a passage selected in the rendered book inside the raw chapter text.
+// Selections lose markdown line breaks, so fall back to a whitespace-insensitive match.
+const locatePassage = (content: string, passage: string): { start: number; end: number } | null => {
+    const needle = passage.trim();
+    if (!needle) return null;
+    const exact = content.indexOf(needle);
+    if (exact !== -1) return { start: exact, end: exact + needle.length };
+
+    const pattern = needle.split(/\s+/).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s+');
+    const match = new RegExp(pattern).exec(content);
+    return match ? { start: match.index, end: match.index + match[0].length } : null;
+};
+
+// Manuscript text on either side of one chapter
+const textAround = (chapters: { chapter_index: number; content: string | null }[], index: number) => ({
+    before: joinChapters(...chapters.filter(c => c.chapter_index < index).map(c => c.content || "")),
+    after: joinChapters(...chapters.filter(c => c.chapter_index > index).map(c => c.content || ""))
+});
+
 export class InterviewSession extends DurableObject {
     state: DurableObjectState;
     env: Env;
@@ -30,32 +167,27 @@ export class InterviewSession extends DurableObject {
     userId: string = "";
     bookContext: any = null;
     notes: NoteItem[] = [];
-    mode: 'interview' | 'writing' = 'interview';
+    noteUndo: NoteUndo[] = [];
+    mode: SessionMode = 'interview';
     
     currentDraft: string = "";        
     fullManuscript: string = "";      
     currentChapterIndex: number = 1; 
+    revision: ChapterRevision | null = null;
+    outlineProposal: OutlineProposal | null = null;
+    // Completed chapters on either side of the working chapter, so its draft shows in outline order
+    around = { before: "", after: "" };
 
     isProcessing: boolean = false;
     abortController: AbortController | null = null;
-    
-    config = {
-        accountId: "",
-        gatewayId: "",
-        geminiKey: "",
-        aigToken: ""
-    };
+    // Bumped on invalidation, so a context built from data read before it is not cached
+    contextGeneration = 0;
 
     constructor(state: DurableObjectState, env: Env) {
         super(state, env);
         this.state = state;
         this.env = env;
 
-        this.config.accountId = env.CF_ACCOUNT_ID;
-        this.config.gatewayId = env.CF_GATEWAY_ID;
-        this.config.geminiKey = env.GEMINI_API_KEY;
-        this.config.aigToken = env.CF_AIG_TOKEN || "";
-
         this.state.blockConcurrencyWhile(async () => {
             await this.ensureStateLoaded();
         });
@@ -65,21 +197,26 @@ export class InterviewSession extends DurableObject {
         const storedMap = await this.state.storage.get([
             "history", "bookId", "userId", "notes", "mode", 
             "currentDraft", "fullManuscript", "currentChapterIndex", 
-            "config", "bookContext"
+            "config", "bookContext", "revision", "outlineProposal", "around", "noteUndo"
         ]);
+
+        // Older sessions kept a copy of the API credentials here. They now come from env only, so scrub it.
+        if (storedMap.has("config")) await this.state.storage.delete("config");
         
         this.history = (storedMap.get("history") as ThreadMessage[]) || [];
         this.bookId = (storedMap.get("bookId") as string) || "";
         this.userId = (storedMap.get("userId") as string) || "";
-        this.notes = (storedMap.get("notes") as NoteItem[]) || [];
-        this.mode = (storedMap.get("mode") as 'interview' | 'writing') || 'interview';
+        this.mode = (storedMap.get("mode") as SessionMode) || 'interview';
         this.currentDraft = (storedMap.get("currentDraft") as string) || "";
         this.fullManuscript = (storedMap.get("fullManuscript") as string) || "";
         this.currentChapterIndex = (storedMap.get("currentChapterIndex") as number) || 1;
+        this.notes = withNoteDefaults(storedMap.get("notes") as NoteItem[], this.currentChapterIndex);
+        this.noteUndo = (storedMap.get("noteUndo") as NoteUndo[]) || [];
         this.bookContext = (storedMap.get("bookContext") as any) || null;
-        
-        const storedConfig = storedMap.get("config") as any;
-        if (storedConfig) this.config = { ...this.config, ...storedConfig };
+        this.revision = (storedMap.get("revision") as ChapterRevision) || null;
+        this.outlineProposal = (storedMap.get("outlineProposal") as OutlineProposal) || null;
+        // Sessions from before chapters could be worked on out of order always wrote at the end
+        this.around = (storedMap.get("around") as { before: string; after: string }) || { before: this.fullManuscript, after: "" };
     }
 
     broadcast(message: any) {
@@ -93,20 +230,32 @@ export class InterviewSession extends DurableObject {
         this.broadcast({ type: 'debug_log', content: `[Server] ${message}` });
     }
 
+    // Credentials are read from the worker env on every call and never stored
+    llm(): LLMProvider {
+        return createLLMProvider({
+            provider: this.env.LLM_PROVIDER,
+            accountId: this.env.CF_ACCOUNT_ID,
+            gatewayId: this.env.CF_GATEWAY_ID,
+            apiKey: this.env.GEMINI_API_KEY,
+            aigToken: this.env.CF_AIG_TOKEN
+        });
+    }
+
     // === NEW HELPER: STRICT DEDUPLICATION ===
-    async addMessageSafe(role: 'user' | 'assistant' | 'system' | 'tool', content: string): Promise<boolean> {
+    // Returns the new message's id, or null if it was a duplicate
+    async addMessageSafe(role: 'user' | 'assistant' | 'system' | 'tool', content: string, id: string = crypto.randomUUID()): Promise<string | null> {
         // Check the very last message. If it's identical, REFUSE to add.
         if (this.history.length > 0) {
             const lastMsg = this.history[this.history.length - 1];
             if (lastMsg.role === role && lastMsg.content === content) {
                 this.broadcastLog("Prevented duplicate message insertion.");
-                return false;
+                return null;
             }
         }
         
-        this.history.push({ role, content });
+        this.history.push({ id, role, content });
         await this.state.storage.put("history", this.history);
-        return true;
+        return id;
     }
 
     async fetch(request: Request): Promise<Response> {
@@ -114,23 +263,15 @@ export class InterviewSession extends DurableObject {
 
         if (url.pathname === "/websocket") {
             const queryBookId = url.searchParams.get("bookId");
+            const owner = await verifyAccessToken(this.env, url.searchParams.get("token"));
+            if (!owner) return new Response("Unauthorized", { status: 401 });
+            if (!await ownsBook(this.env, owner, queryBookId || this.bookId)) return new Response("Forbidden", { status: 403 });
+
             if (queryBookId) {
                 this.bookId = queryBookId;
                 await this.state.storage.put("bookId", this.bookId);
             }
 
-            const accId = url.searchParams.get("cf_account_id");
-            const gwId = url.searchParams.get("cf_gateway_id");
-            const gKey = url.searchParams.get("gemini_key");
-            const aigTok = url.searchParams.get("cf_aig_token");
-
-            if (accId) this.config.accountId = accId;
-            if (gwId) this.config.gatewayId = gwId;
-            if (gKey) this.config.geminiKey = gKey;
-            if (aigTok) this.config.aigToken = aigTok;
-            
-            await this.state.storage.put("config", this.config);
-
             const upgradeHeader = request.headers.get("Upgrade");
             if (!upgradeHeader || upgradeHeader !== "websocket") {
                 return new Response("Expected Upgrade: websocket", { status: 426 });
@@ -140,6 +281,12 @@ export class InterviewSession extends DurableObject {
             this.state.acceptWebSocket(pair[1]);
             return new Response(null, { status: 101, webSocket: pair[0] });
         }
+        // Sent by the worker (never forwarded from clients) when documents, residences or the profile change
+        if (url.pathname === "/invalidate-context" && request.method === "POST") {
+            this.contextGeneration++;
+            await this.state.storage.delete("subjectContext");
+            return new Response(null, { status: 204 });
+        }
         return new Response("Not found", { status: 404 });
     }
 
@@ -156,10 +303,17 @@ export class InterviewSession extends DurableObject {
                 // Send initial state
                 ws.send(JSON.stringify({ type: 'outline', content: this.bookContext }));
                 ws.send(JSON.stringify({ type: 'notes_sync', content: this.notes }));
+                ws.send(JSON.stringify({ type: 'notes_undo_sync', content: this.canUndoNotes() }));
+                ws.send(JSON.stringify({ type: 'people_sync', content: await loadPeople(this.env.DB, this.userId) }));
                 ws.send(JSON.stringify({ type: 'mode_sync', content: this.mode }));
                 ws.send(JSON.stringify({ type: 'chapter_index_sync', content: this.currentChapterIndex }));
+                ws.send(JSON.stringify({ type: 'revision_sync', content: this.revisionSummary() }));
+                ws.send(JSON.stringify({ type: 'outline_proposal', content: this.outlineProposal }));
+                ws.send(JSON.stringify({ type: 'chapter_progress_sync', content: await this.parkedChapterIndices() }));
+
+                ws.send(JSON.stringify({ type: 'chapters_sync', content: await this.manuscriptChapters() }));
 
-                const totalText = this.fullManuscript + (this.fullManuscript && this.currentDraft ? "\n\n" : "") + this.currentDraft;
+                const totalText = this.visibleManuscript();
                 if (totalText) {
                     ws.send(JSON.stringify({ type: 'draft_chunk', content: totalText, reset: true }));
                 }
@@ -168,11 +322,9 @@ export class InterviewSession extends DurableObject {
                      ws.send(JSON.stringify({ type: 'draft_complete' }));
                 }
 
-                // Handle Greeting - Using Safe Add
-                if (this.mode === 'interview') {
+                // Handle Greeting - Using Safe Add. The next interview waits while an outline proposal is under review.
+                if (this.mode === 'interview' && !this.outlineProposal) {
                     if (this.history.length === 0) {
-                        const contextSnippet = await this.gatherFullContext(ws);
-                        
                         const currentChapter = this.bookContext?.chapters?.find((c: any) => c.index === this.currentChapterIndex);
                         if (currentChapter) {
                             const opening = `Hello! We are working on **Chapter ${this.currentChapterIndex}: ${currentChapter?.title || 'Untitled'}**. ${currentChapter?.summary || ''}\n\n${this.currentChapterIndex === 1 ? "To begin, tell me about how this part of your life started?" : "Ready to move on to this next phase?"}`;
@@ -181,7 +333,7 @@ export class InterviewSession extends DurableObject {
                             // Only broadcast if we actually added a new message
                             const added = await this.addMessageSafe('assistant', opening);
                             if (added) {
-                                this.broadcast({ type: 'response', content: opening, role: 'assistant' });
+                                this.broadcast({ type: 'response', content: opening, role: 'assistant', id: added });
                             } else {
                                 this.sendHistory(ws);
                             }
@@ -193,27 +345,32 @@ export class InterviewSession extends DurableObject {
                     this.sendHistory(ws);
                 }
             } 
+            else if (data.type === 'update_outline') {
+                this.assertNoProposal();
+                await this.updateOutline(data.chapters);
+            }
+            else if (data.type === 'resolve_outline_proposal') {
+                await this.resolveOutlineProposal(!!data.accept);
+            }
             else if (data.type === 'expand_outline') {
+                this.assertNoProposal();
+                if (this.revision) throw new Error("Finish the chapter revision before expanding the outline.");
                 const { instruction } = data;
                 await this.runOutlineExpander(instruction);
             }
-            else if (data.type === 'patch_note') {
-                const { id, content } = data;
-                this.notes = this.notes.map(n => n.id === id ? { ...n, content } : n);
-                await this.state.storage.put("notes", this.notes);
-            }
-            else if (data.type === 'update_notes') {
-                const clientNotes = Array.isArray(data.content) ? data.content as NoteItem[] : [];
-                if (clientNotes.length > 0) {
-                    this.notes = clientNotes;
-                    await this.state.storage.put("notes", this.notes);
-                    ws.send(JSON.stringify({ type: 'notes_sync', content: this.notes }));
-                }
+            else if (NOTE_OP_MESSAGES.has(data.type)) {
+                const op = parseNoteOp(data);
+                const current = staleNoteEdit(this.notes, op);
+                if (current) ws.send(JSON.stringify({ type: 'note_conflict', content: { note: current, reason: "The note changed while you were editing it." } }));
+                else await this.changeNotes(op);
+            }
+            else if (data.type === 'undo_note') {
+                await this.undoNoteChange();
             }
             else if (data.type === 'retry_chapter') {
                 this.currentDraft = "";
                 await this.state.storage.put("currentDraft", "");
-                this.broadcast({ type: 'draft_chunk', content: this.fullManuscript + (this.fullManuscript ? "\n\n" : ""), reset: true });
+                this.broadcast({ type: 'draft_chunk', content: this.manuscriptPrefix(), reset: true });
                 await this.runWriterAgent();
             }
             else if (data.type === 'cancel_generation') {
@@ -226,13 +383,65 @@ export class InterviewSession extends DurableObject {
                 this.broadcast({ type: 'mode_sync', content: this.mode });
             }
             else if (data.type === 'next_chapter') {
-                await this.resetForNextChapter();
+                // Nothing to finish while the interviewer or biographer is still working or a proposal is under review.
+                // A repeated request (double click, second tab) finds the chapter already finished and does nothing.
+                if (this.isProcessing || this.abortController || this.outlineProposal) return;
+                // Moving on from a reopened chapter means keeping the revision
+                if (this.revision) await this.endRevision(true);
+                else await this.resetForNextChapter();
+            }
+            else if (data.type === 'switch_chapter') {
+                this.assertNoProposal();
+                await this.switchChapter(Number(data.chapterIndex));
+            }
+            else if (data.type === 'reopen_chapter') {
+                this.assertNoProposal();
+                await this.startRevision(Number(data.chapterIndex), "");
+            }
+            else if (data.type === 'rewrite_chapter') {
+                const instruction = String(data.instruction || "").trim();
+                if (!instruction) throw new Error("Rewrite instructions are required.");
+                this.assertNoProposal();
+                await this.startRevision(Number(data.chapterIndex), instruction);
+            }
+            else if (data.type === 'finish_revision') {
+                await this.endRevision(true);
+            }
+            else if (data.type === 'cancel_revision') {
+                await this.endRevision(false);
+            }
+            else if (data.type === 'edit_chapter') {
+                const { chapterIndex, content, baseContent } = data;
+                if (typeof content !== 'string' || typeof baseContent !== 'string') throw new Error("edit_chapter needs content and baseContent.");
+                await this.editChapter(ws, Number(chapterIndex), content, baseContent);
+            }
+            else if (data.type === 'search_notes') {
+                const query = typeof data.query === 'string' ? data.query : "";
+                ws.send(JSON.stringify({ type: 'note_search_results', query, content: await searchArchivedNotes(this.env.DB, this.bookId, query, this.currentChapterIndex) }));
+            }
+            else if (data.type === 'list_versions') {
+                await this.sendVersions(ws, Number(data.chapterIndex));
+            }
+            else if (data.type === 'restore_version') {
+                await this.restoreVersion(ws, String(data.versionId));
+            }
+            else if (data.type === 'rewrite_passage') {
+                const { requestId, chapterIndex, passage, instruction } = data;
+                if (!passage || !instruction) throw new Error("rewrite_passage needs a passage and an instruction.");
+                await this.rewritePassage(ws, String(requestId || crypto.randomUUID()), Number(chapterIndex), String(passage), String(instruction));
+            }
+            else if (data.type === 'apply_passage') {
+                const { chapterIndex, passage, replacement } = data;
+                if (typeof passage !== 'string' || typeof replacement !== 'string') throw new Error("apply_passage needs a passage and its replacement.");
+                await this.applyPassage(ws, Number(chapterIndex), passage, replacement);
             }
             else if (data.type === 'message') {
                 if (this.isProcessing || this.mode === 'writing') return;
+                this.assertNoProposal();
                 
                 // User messages also need deduping
-                const added = await this.addMessageSafe('user', data.content);
+                // The client names its messages so its notes can link to them before the next history sync
+                const added = await this.addMessageSafe('user', data.content, typeof data.id === 'string' ? data.id : undefined);
                 if (added) {
                     await this.processTurn(ws);
                 }
@@ -246,10 +455,16 @@ export class InterviewSession extends DurableObject {
     sendHistory(ws: WebSocket) {
         const visibleHistory = this.history
             .filter(m => m.content && (m.role === 'user' || m.role === 'assistant'))
-            .map(m => ({ role: m.role, content: m.content }));
+            .map(m => ({ id: m.id, role: m.role, content: m.content }));
         ws.send(JSON.stringify({ type: 'history', content: visibleHistory }));
     }
 
+    // Archived notes of every chapter but the working one, as prompt text
+    async otherChaptersNotes() {
+        const notes = (await loadArchivedNotes(this.env.DB, this.bookId)).filter(n => n.chapterIndex !== this.currentChapterIndex);
+        return formatArchivedNotes(notes, index => this.bookContext?.chapters?.find((c: any) => c.index === index)?.title);
+    }
+
     async refreshBookContext() {
         if (!this.bookId) return;
         const book = await this.env.DB.prepare("SELECT outline_json, user_id FROM books WHERE id = ?").bind(this.bookId).first();
@@ -275,20 +490,36 @@ export class InterviewSession extends DurableObject {
     }
 
     async runInterviewerAgent(ws: WebSocket) {
-        const tools = [
-            { name: "create_note", description: "Create a new note.", parameters: { type: "OBJECT", properties: { content: { type: "STRING" } }, required: ["content"] } },
+        const tools: ToolDeclaration[] = [
+            {
+                name: "create_note",
+                description: "Create a new note.",
+                parameters: {
+                    type: "OBJECT",
+                    properties: {
+                        content: { type: "STRING" },
+                        tags: { type: "ARRAY", items: { type: "STRING" }, description: "A few short topic tags (e.g. family, school, career)." }
+                    },
+                    required: ["content"]
+                }
+            },
+            RECORD_PERSON_TOOL,
+            ...FACT_TOOLS,
             { name: "finalize_interview", description: "End interview.", parameters: { type: "OBJECT", properties: {}, required: [] } }
         ];
 
         let keepGoing = true;
         let turns = 0;
-        const backgroundContext = await this.gatherFullContext(ws);
+        const backgroundContext = await this.gatherFullContext();
 
         while (keepGoing && turns < 5) {
             turns++;
             const storedNotes = await this.state.storage.get<NoteItem[]>("notes");
-            if (storedNotes) this.notes = storedNotes;
-            const currentNotesContext = this.notes.length > 0 ? JSON.stringify(this.notes) : "[(No notes yet)]";
+            if (storedNotes) this.notes = withNoteDefaults(storedNotes, this.currentChapterIndex);
+            const currentNotesContext = this.notes.length > 0 ? notesForPrompt(this.notes) : "[(No notes yet)]";
+            const knownFacts = formatFacts(await loadFacts(this.env.DB, this.userId), interviewSource(this.bookId, this.currentChapterIndex), this.retrievalQuery()) || "(None yet)";
+            const knownPeople = formatPeople(await loadPeople(this.env.DB, this.userId), { bookId: this.bookId, chapter: this.currentChapterIndex }, this.retrievalQuery()) || "(None yet)";
+            const earlierNotes = await this.otherChaptersNotes() || "(None yet)";
             const currentChapter = this.bookContext?.chapters?.find((c: any) => c.index === this.currentChapterIndex);
 
             const systemPrompt = `You are an expert biographer.
@@ -297,23 +528,54 @@ export class InterviewSession extends DurableObject {
             Plan: ${currentChapter?.summary || "N/A"}
             === SUBJECT ===
             ${backgroundContext}
+            === KNOWN FACTS ===
+            ${knownFacts}
+            === PEOPLE ===
+            ${knownPeople}
+            === NOTES FROM OTHER CHAPTERS (background; don't ask again about what they already cover) ===
+            ${earlierNotes}
             === NOTES ===
             ${currentNotesContext}
-            GOAL: Interview the user for details on this chapter. Use 'create_note' for facts. Call 'finalize_interview' when ready.`;
+            GOAL: Interview the user for details on this chapter. Use 'create_note' for details and anecdotes.
+            Record every dated event, place, employer and school they mention with the record_* tools, unless it is already a known fact.
+            Call 'record_person' for everyone they mention who isn't in PEOPLE yet, and when they tell you a new nickname, relationship or fact about someone who is.
+            Call 'finalize_interview' when ready.`;
 
             try {
-                const response = await this.callGemini(systemPrompt, tools);
-                const calls = response.functionCalls || []; 
+                const response = await this.llm().generate({ system: systemPrompt, messages: this.history, tools });
+                const calls = response.functionCalls; 
 
                 if (calls.length > 0) {
                     for (const call of calls) {
                         if (call.name === 'create_note') {
-                            const { content } = call.args;
-                            const newNote = { id: crypto.randomUUID(), content: content || "New Note" };
-                            this.notes = [...this.notes, newNote];
-                            await this.state.storage.put("notes", this.notes);
+                            const { content, tags } = call.args;
+                            const now = Date.now();
+                            const note: NoteItem = {
+                                id: crypto.randomUUID(),
+                                content: content || "New Note",
+                                source: 'ai',
+                                chapterIndex: this.currentChapterIndex,
+                                createdAt: now,
+                                updatedAt: now,
+                                tags: normalizeTags(tags),
+                                messageId: [...this.history].reverse().find(m => m.role === 'user')?.id
+                            };
+                            await this.changeNotes({ type: 'put', note }, false);
                             this.history.push({ role: 'tool', functionResponse: { name: 'create_note', response: { success: true } } });
-                        } 
+                        }
+                        else if (isFactTool(call.name)) {
+                            const fact = factFromCall(call.name, call.args, interviewSource(this.bookId, this.currentChapterIndex));
+                            if (fact) await recordFact(this.env.DB, this.userId, fact);
+                            this.history.push({ role: 'tool', functionResponse: { name: call.name, response: { success: !!fact } } });
+                        }
+                        else if (call.name === 'record_person') {
+                            const { name, relationship, aliases, key_facts } = call.args;
+                            const person = typeof name === 'string'
+                                ? await recordPerson(this.env.DB, this.userId, { name, relationship, aliases, keyFacts: key_facts }, { bookId: this.bookId, chapter: this.currentChapterIndex })
+                                : null;
+                            this.history.push({ role: 'tool', functionResponse: { name: 'record_person', response: { success: !!person } } });
+                            if (person) this.broadcast({ type: 'people_sync', content: await loadPeople(this.env.DB, this.userId) });
+                        }
                         else if (call.name === 'finalize_interview') {
                             keepGoing = false;
                             this.mode = 'writing';
@@ -325,13 +587,12 @@ export class InterviewSession extends DurableObject {
                         }
                     }
                     await this.state.storage.put("history", this.history);
-                    this.broadcast({ type: 'notes_sync', content: this.notes });
                 } else {
                     const text = response.text || "...";
                     // === USE SAFE ADD ===
                     const added = await this.addMessageSafe('assistant', text);
                     if (added) {
-                        this.broadcast({ type: 'response', content: text, role: 'assistant' });
+                        this.broadcast({ type: 'response', content: text, role: 'assistant', id: added });
                     }
                     keepGoing = false;
                 }
@@ -339,27 +600,115 @@ export class InterviewSession extends DurableObject {
         }
     }
 
-    async gatherFullContext(ws?: WebSocket): Promise<string> {
+    // What the next prompt is about: a chapter's plan and the user's latest answer (or another instruction)
+    retrievalQuery(chapterIndex = this.currentChapterIndex, message?: string): string {
+        const chapter = this.bookContext?.chapters?.find((c: any) => c.index === chapterIndex);
+        const lastAnswer = message ?? [...this.history].reverse().find(m => m.role === 'user' && m.content)?.content;
+        return [chapter?.title, chapter?.summary, lastAnswer].filter(Boolean).join("\n");
+    }
+
+    // Profile, residences, document digests and the raw passages relevant to the query
+    async gatherFullContext(query = this.retrievalQuery(), rawText: RawText = 'fallback'): Promise<string> {
         if (!this.userId) return "User ID not found.";
-        let context = "";
         try {
-            const user = await this.env.DB.prepare("SELECT * FROM users WHERE id = ?").bind(this.userId).first();
-            context += `Name: ${user?.name}, DOB: ${user?.dob}\n`;
-            const list = await this.env.BUCKET.list({ prefix: `documents/${this.userId}/` });
-            if (list) {
-                for (const object of list.objects) {
-                    const file = await this.env.BUCKET.get(object.key);
-                    if (file) context += `--- Doc ---\n${(await file.text()).slice(0, 30000)}\n`;
-                }
+            const generation = this.contextGeneration;
+            const subject = await this.state.storage.get<SubjectContext>("subjectContext")
+                || { ...await this.loadSubjectProfile(), query: null, passages: [] };
+            if (subject.query !== `${rawText}:${query}`) {
+                subject.query = `${rawText}:${query}`;
+                const skip = rawText === 'all' ? undefined : new Set(subject.digested);
+                subject.passages = await searchDocuments(this.env.DB, this.userId, query, undefined, skip);
             }
-            return context;
+            if (generation === this.contextGeneration) await this.state.storage.put("subjectContext", subject);
+
+            return subject.passages.length > 0 ? `${subject.profile}${formatPassages(subject.passages)}\n` : subject.profile;
         } catch (e) { return ""; }
     }
 
+    // Reads the profile, residences and digests from D1 and catches the passage index up with the archives
+    async loadSubjectProfile(): Promise<Pick<SubjectContext, 'profile' | 'digested'>> {
+        let profile = "";
+        const user = await this.env.DB.prepare("SELECT * FROM users WHERE id = ?").bind(this.userId).first();
+        profile += `Name: ${user?.name}, DOB: ${user?.dob}\n`;
+        const { results: places } = await this.env.DB.prepare("SELECT label, date_start, date_end FROM locations WHERE user_id = ? ORDER BY date_start IS NULL, date_start")
+            .bind(this.userId).all<{ label: string; date_start: string | null; date_end: string | null }>();
+        if (places.length > 0) {
+            profile += `--- Where they lived ---\n${places.map((p, i) => `- ${p.date_start || "?"} to ${p.date_end || (i === places.length - 1 ? "present" : "?")}: ${p.label}`).join("\n")}\n`;
+        }
+        const digests = await loadDigests(this.env.DB, this.userId);
+        if (digests.size > 0) profile += `${formatDigests(digests)}\n`;
+        await syncDocumentIndex(this.env, this.userId);
+        return { profile, digested: [...digests.keys()] };
+    }
+
+    async saveOutline() {
+        await this.state.storage.put("bookContext", this.bookContext);
+        await this.env.DB.prepare("UPDATE books SET outline_json = ? WHERE id = ?")
+            .bind(JSON.stringify(this.bookContext), this.bookId).run();
+    }
+
+    // === OUTLINE EDITING ===
+    async updateOutline(proposed: unknown) {
+        if (this.revision) throw new Error("Finish the chapter revision before editing the outline.");
+        if (!this.bookContext) throw new Error("The outline hasn't loaded yet.");
+
+        const written = await this.loadCompletedChapters();
+        const locked = new Set(written.map(c => c.chapter_index));
+        const { chapters, moves } = validateOutline(this.bookContext.chapters || [], proposed, locked, new Set([this.currentChapterIndex]));
+        const dropped = (this.bookContext.chapters || []).map((c: OutlineChapter) => c.index).filter((index: number) => !moves.has(index));
+        this.bookContext.chapters = chapters;
+        await this.saveOutline();
+        await this.renumberChapters(moves, dropped);
+
+        this.broadcast({ type: 'outline', content: this.bookContext });
+        this.broadcast({ type: 'chapter_progress_sync', content: await this.parkedChapterIndices() });
+        this.broadcastLog(`Outline updated (${this.bookContext.chapters.length} chapters).`);
+    }
+
+    // Started chapters keep their saved interview and drafts when the outline moves them; dropped ones lose them
+    async renumberChapters(moves: Map<number, number>, dropped: number[]) {
+        const parked = await this.state.storage.list<ParkedChapter>({ prefix: PARKED_PREFIX });
+        await this.state.storage.delete([...parked.keys()]);
+        for (const [key, chapter] of parked) {
+            const to = moves.get(Number(key.slice(PARKED_PREFIX.length)));
+            if (to !== undefined) await this.state.storage.put(parkedKey(to), { ...chapter, notes: chapter.notes.map(n => ({ ...n, chapterIndex: to })) });
+        }
+
+        // Note undo follows its chapter (a restored note carries its chapter too); a dropped chapter's goes
+        this.noteUndo = this.noteUndo.flatMap(({ chapterIndex, op }) => {
+            const to = moves.get(chapterIndex);
+            if (to === undefined) return [];
+            return [{ chapterIndex: to, op: op.type === 'put' ? { ...op, note: { ...op.note, chapterIndex: to } } : op }];
+        });
+        await this.state.storage.put("noteUndo", this.noteUndo);
+
+        // Two passes through negative indices so swapped chapters don't collide
+        const renumbered = [...moves].filter(([from, to]) => from !== to);
+        const renumber = (table: string, column: string, bookColumn: string) => [
+            ...renumbered.map(([from, to]) => this.env.DB.prepare(`UPDATE ${table} SET ${column} = ? WHERE ${bookColumn} = ? AND ${column} = ?`).bind(-to, this.bookId, from)),
+            this.env.DB.prepare(`UPDATE ${table} SET ${column} = -${column} WHERE ${bookColumn} = ? AND ${column} < 0`).bind(this.bookId)
+        ];
+        const statements: D1PreparedStatement[] = [];
+        for (const table of ["chapter_versions", "notes"]) {
+            statements.push(...dropped.map(index => this.env.DB.prepare(`DELETE FROM ${table} WHERE book_id = ? AND chapter_index = ?`).bind(this.bookId, index)));
+            statements.push(...renumber(table, "chapter_index", "book_id"));
+        }
+
+        // Facts and people name the chapter they were told in. Facts from a dropped chapter's interview go with it;
+        // people stay in the registry, without a first mention.
+        statements.push(...dropped.map(index => this.env.DB.prepare("UPDATE people SET first_chapter = NULL WHERE first_book_id = ? AND first_chapter = ?").bind(this.bookId, index)));
+        statements.push(...renumber("people", "first_chapter", "first_book_id"));
+        const moveFacts = (from: number, to: number) => this.env.DB.prepare("UPDATE facts SET source = ? WHERE user_id = ? AND source = ?")
+            .bind(interviewSource(this.bookId, to), this.userId, interviewSource(this.bookId, from));
+        statements.push(...dropped.map(index => this.env.DB.prepare("DELETE FROM facts WHERE user_id = ? AND source = ?").bind(this.userId, interviewSource(this.bookId, index))));
+        statements.push(...renumbered.map(([from, to]) => moveFacts(from, -to)), ...renumbered.map(([, to]) => moveFacts(-to, to)));
+        await this.env.DB.batch(statements);
+    }
+
     async runOutlineExpander(userInstruction: string) {
         this.broadcastLog("Expanding outline...");
         
-        const tools = [{
+        const tools: ToolDeclaration[] = [{
             name: "append_chapters",
             description: "Appends new chapters to the book.",
             parameters: {
@@ -381,10 +730,7 @@ export class InterviewSession extends DurableObject {
         const currentOutlineStr = JSON.stringify(this.bookContext?.chapters || []);
         const nextIndex = (this.bookContext?.chapters?.length || 0) + 1;
 
-        const manualContents = [{
-            role: "user",
-            parts: [{
-                text: `You are a helpful editor.
+        const prompt = `You are a helpful editor.
                 === CURRENT OUTLINE ===
                 ${currentOutlineStr}
                 
@@ -392,13 +738,11 @@ export class InterviewSession extends DurableObject {
                 "${userInstruction}"
                 
                 TASK: Generate NEW chapters to continue the story, starting at index ${nextIndex}.
-                You MUST use the 'append_chapters' tool to return them.`
-            }]
-        }];
+                You MUST use the 'append_chapters' tool to return them.`;
 
         try {
-            const response = await this.callGemini("", tools, manualContents);
-            const calls = response.functionCalls || [];
+            const response = await this.llm().generate({ messages: [{ role: 'user', content: prompt }], tools });
+            const calls = response.functionCalls;
             let expanded = false;
             
             for (const call of calls) {
@@ -413,13 +757,11 @@ export class InterviewSession extends DurableObject {
                         }));
                         
                         this.bookContext.chapters = [...this.bookContext.chapters, ...formattedChapters];
-                        await this.state.storage.put("bookContext", this.bookContext);
-                        
-                        await this.env.DB.prepare("UPDATE books SET outline_json = ? WHERE id = ?")
-                            .bind(JSON.stringify(this.bookContext), this.bookId).run();
+                        await this.saveOutline();
 
                         this.broadcastLog(`Added ${formattedChapters.length} new chapters.`);
 
+                        await archiveChapterNotes(this.env.DB, this.bookId, this.currentChapterIndex, this.notes);
                         this.history = []; 
                         this.mode = 'interview';
                         this.notes = [];
@@ -439,7 +781,7 @@ export class InterviewSession extends DurableObject {
                         await this.addMessageSafe('assistant', opening);
                         
                         // Use history broadcast to force sync and remove any duplicates
-                        this.sendHistory(null as any); 
+                        this.state.getWebSockets().forEach(socket => this.sendHistory(socket));
                         
                         expanded = true;
                         break; 
@@ -458,135 +800,569 @@ export class InterviewSession extends DurableObject {
 
     async runWriterAgent() {
         this.broadcastLog("Writing chapter...");
-        const fullContext = await this.gatherFullContext();
+        const query = this.retrievalQuery();
+        const fullContext = await this.gatherFullContext(query, 'all');
+        const facts = formatFacts(await loadFacts(this.env.DB, this.userId), interviewSource(this.bookId, this.currentChapterIndex), query);
+        const people = formatPeople(await loadPeople(this.env.DB, this.userId), { bookId: this.bookId, chapter: this.currentChapterIndex }, query);
+        const otherNotes = await this.otherChaptersNotes();
         const currentChapter = this.bookContext?.chapters?.find((c: any) => c.index === this.currentChapterIndex);
+        const revisionBrief = this.revision ? `
+        This is a REVISION of a chapter that was already written. Previous version:
+        ${this.revision.previousContent}
+        ${this.revision.instruction ? `Revision instructions: ${this.revision.instruction}` : "Fold the new interview notes into the previous version."}` : "";
         const systemPrompt = `You are a biographer. Write Chapter ${this.currentChapterIndex}: "${currentChapter?.title}".
-        Source: ${fullContext}. Notes: ${JSON.stringify(this.notes)}.
+        Source: ${fullContext}. Notes: ${notesForPrompt(this.notes)}.${facts ? `
+        Facts (ground truth: never contradict them, and prefer them over the notes and sources when they disagree):
+        ${facts}` : ""}${people ? `
+        People (use these names and relationships; the subject may call them by any of the names in quotes):
+        ${people}` : ""}${otherNotes ? `
+        Notes from other chapters (background only; don't retell what belongs to those chapters):
+        ${otherNotes}` : ""}${revisionBrief}
         Format: Start with "# Chapter ${this.currentChapterIndex}: ${currentChapter?.title}" then newline.
         First Person (I). Emotional. Narrative.`;
         
         this.currentDraft = "";
-        this.broadcast({ type: 'draft_chunk', content: this.fullManuscript + (this.fullManuscript ? "\n\n" : ""), reset: true });
+        this.broadcast({ type: 'draft_chunk', content: this.manuscriptPrefix(), reset: true });
 
+        this.abortController = new AbortController();
         try {
-            await this.streamGemini(systemPrompt);
+            await this.streamDraft(systemPrompt, this.abortController.signal);
             await this.state.storage.put("currentDraft", this.currentDraft);
+            await this.recordVersion(this.currentChapterIndex, this.currentDraft, 'ai');
         } catch (e: any) { this.broadcastLog(e.message); } 
-        finally { this.broadcast({ type: 'draft_complete' }); }
+        finally {
+            this.abortController = null;
+            // Chapters after this one were not streamed, so resend the whole text
+            if (this.around.after) this.broadcast({ type: 'draft_chunk', content: this.visibleManuscript(), reset: true });
+            this.broadcast({ type: 'draft_complete' });
+            await this.broadcastChapters();
+        }
     }
 
     async resetForNextChapter() {
+        // Only a written draft finishes a chapter, and only once
+        if (this.mode !== 'writing' || !this.currentDraft) return;
         const chapterId = crypto.randomUUID();
         const currentChapter = this.bookContext?.chapters?.find((c: any) => c.index === this.currentChapterIndex);
         const title = currentChapter?.title || `Chapter ${this.currentChapterIndex}`;
 
-        await this.env.DB.prepare(`INSERT INTO chapters (id, book_id, chapter_index, title, content, status) VALUES (?, ?, ?, ?, ?, ?)`).bind(chapterId, this.bookId, this.currentChapterIndex, title, this.currentDraft, 'completed').run();
+        const inserted = await this.env.DB.prepare(
+            `INSERT INTO chapters (id, book_id, chapter_index, title, content, status) SELECT ?, ?, ?, ?, ?, ?
+             WHERE NOT EXISTS (SELECT 1 FROM chapters WHERE book_id = ? AND chapter_index = ? AND status = 'completed')`
+        ).bind(chapterId, this.bookId, this.currentChapterIndex, title, this.currentDraft, 'completed', this.bookId, this.currentChapterIndex).run();
+        if (!inserted.meta.changes) return;
 
-        this.fullManuscript += (this.fullManuscript ? "\n\n" : "") + this.currentDraft;
-        this.currentDraft = "";
-        this.currentChapterIndex += 1; 
+        const finished = { index: this.currentChapterIndex, history: this.history, draft: this.currentDraft };
+        await this.loadChapter(await this.nextOpenChapter(finished.index));
+        await this.broadcastWorkingState();
 
-        this.history = [];
-        this.notes = [];   
-        this.mode = 'interview'; 
-        
-        await this.state.storage.put("history", this.history);
-        await this.state.storage.put("notes", this.notes);
-        await this.state.storage.put("mode", this.mode);
-        await this.state.storage.put("currentDraft", this.currentDraft);
-        await this.state.storage.put("fullManuscript", this.fullManuscript);
-        await this.state.storage.put("currentChapterIndex", this.currentChapterIndex);
-        
-        this.broadcast({ type: 'chapter_index_sync', content: this.currentChapterIndex });
-        
-        // Trigger safe greeting for next chapter
+        // Revisit the rest of the plan before moving on; the greeting waits for the user's verdict
+        await this.proposeOutlineRevision(finished.index, finished.history, finished.draft);
+        if (!this.outlineProposal) await this.greetCurrentChapter();
+    }
+
+    // === NOTES ===
+    // Every change to the working notes, the user's from any tab and the interviewer's alike, is applied here
+    // one operation at a time and sent to every socket as the change it made, never as the whole list.
+    // Each is applied to the notes as they are when it arrives, so no one works from a stale copy.
+    async changeNotes(op: NoteOp, undoable = true) {
+        const applied = applyNoteOp(this.notes, op, this.currentChapterIndex);
+        if (!applied) return;
+        this.notes = applied.notes;
+        if (undoable) this.noteUndo = [...this.noteUndo, { chapterIndex: this.currentChapterIndex, op: applied.undo }].slice(-NOTE_UNDO_LIMIT);
+        await this.state.storage.put({ notes: this.notes, noteUndo: this.noteUndo });
+        this.broadcast({ type: 'note_change', content: applied.change });
+        if (undoable) this.broadcast({ type: 'notes_undo_sync', content: this.canUndoNotes() });
+    }
+
+    // Undoes the working chapter's latest note change that still applies. Entries the notes have
+    // moved past (their note was archived away or removed since) are dropped on the way.
+    async undoNoteChange() {
+        let applied: ReturnType<typeof applyNoteOp> = null;
+        while (!applied) {
+            let i = this.noteUndo.length - 1;
+            while (i >= 0 && this.noteUndo[i].chapterIndex !== this.currentChapterIndex) i--;
+            if (i < 0) break;
+            applied = applyNoteOp(this.notes, this.noteUndo[i].op, this.currentChapterIndex);
+            this.noteUndo = this.noteUndo.filter((_, j) => j !== i);
+        }
+        if (applied) this.notes = applied.notes;
+        await this.state.storage.put({ notes: this.notes, noteUndo: this.noteUndo });
+        if (applied) this.broadcast({ type: 'note_change', content: applied.change });
+        this.broadcast({ type: 'notes_undo_sync', content: this.canUndoNotes() });
+    }
+
+    canUndoNotes() {
+        return this.noteUndo.some(entry => entry.chapterIndex === this.currentChapterIndex);
+    }
+
+    // === CHAPTER NAVIGATION ===
+    // The first unwritten chapter after the given one, wrapping around to earlier gaps; past the end when all are written
+    async nextOpenChapter(after: number): Promise<number> {
+        const written = new Set((await this.loadCompletedChapters()).map(c => c.chapter_index));
+        const open = ((this.bookContext?.chapters || []) as OutlineChapter[]).map(c => c.index).filter(index => !written.has(index));
+        return open.find(index => index > after) ?? open[0] ?? (this.bookContext?.chapters?.length || 0) + 1;
+    }
+
+    async parkedChapterIndices(): Promise<number[]> {
+        const parked = await this.state.storage.list({ prefix: PARKED_PREFIX });
+        return [...parked.keys()].map(key => Number(key.slice(PARKED_PREFIX.length))).sort((a, b) => a - b);
+    }
+
+    // Makes a chapter the working one, resuming whatever was saved when it was last left
+    async loadChapter(chapterIndex: number) {
+        await archiveChapterNotes(this.env.DB, this.bookId, this.currentChapterIndex, this.notes);
+        const parked = await this.state.storage.get<ParkedChapter>(parkedKey(chapterIndex));
+        this.currentChapterIndex = chapterIndex;
+        this.history = parked?.history || [];
+        this.notes = withNoteDefaults(parked?.notes, chapterIndex);
+        this.currentDraft = parked?.currentDraft || "";
+        this.mode = parked?.mode || 'interview';
+
+        await this.state.storage.put({
+            currentChapterIndex: this.currentChapterIndex,
+            history: this.history,
+            notes: this.notes,
+            currentDraft: this.currentDraft,
+            mode: this.mode
+        });
+        if (parked) await this.state.storage.delete(parkedKey(chapterIndex));
+        await this.rebuildManuscript();
+    }
+
+    async switchChapter(chapterIndex: number) {
+        if (this.isProcessing || this.abortController) throw new Error("Wait for the current response to finish before switching chapters.");
+        if (this.revision) throw new Error("Finish the chapter revision before switching chapters.");
+        if (chapterIndex === this.currentChapterIndex) return;
+        if (!this.bookContext?.chapters?.some((c: OutlineChapter) => c.index === chapterIndex)) throw new Error(`Chapter ${chapterIndex} is not in the outline.`);
+        if ((await this.loadCompletedChapters()).some(c => c.chapter_index === chapterIndex)) {
+            throw new Error(`Chapter ${chapterIndex} is already written. Reopen it to revise it.`);
+        }
+
+        // Leave the current chapter where it is so it can be resumed later
+        if (this.history.length > 0 || this.notes.length > 0 || this.currentDraft) {
+            const parked: ParkedChapter = { history: this.history, notes: this.notes, currentDraft: this.currentDraft, mode: this.mode };
+            await this.state.storage.put(parkedKey(this.currentChapterIndex), parked);
+        }
+        await this.loadChapter(chapterIndex);
+
+        this.broadcastLog(`Switched to chapter ${chapterIndex}.`);
+        await this.broadcastWorkingState();
+        if (this.mode === 'writing' && this.currentDraft) this.broadcast({ type: 'draft_complete' });
+        await this.greetCurrentChapter();
+    }
+
+    async greetCurrentChapter() {
+        if (this.history.length > 0 || this.mode !== 'interview') return;
         const newChapter = this.bookContext?.chapters?.find((c: any) => c.index === this.currentChapterIndex);
         if (newChapter) {
              const opening = `Hello! We are working on **Chapter ${this.currentChapterIndex}: ${newChapter.title}**. ${newChapter.summary}\n\nReady to move on?`;
-             await this.addMessageSafe('assistant', opening);
-             this.broadcast({ type: 'response', content: opening, role: 'assistant' });
+             const id = await this.addMessageSafe('assistant', opening);
+             this.broadcast({ type: 'response', content: opening, role: 'assistant', id });
         }
     }
 
-    async streamGemini(prompt: string) {
-        const response = await fetch(`https://gateway.ai.cloudflare.com/v1/${this.config.accountId}/${this.config.gatewayId}/google-ai-studio/v1beta/models/gemini-2.5-flash:streamGenerateContent?alt=sse`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json', 'x-goog-api-key': this.config.geminiKey, ...(this.config.aigToken ? { 'cf-aig-authorization': `Bearer ${this.config.aigToken}` } : {}) },
-            body: JSON.stringify({ contents: [{ role: "user", parts: [{ text: prompt }] }] })
-        });
-        const reader = response.body?.getReader();
-        const decoder = new TextDecoder();
-        if (!reader) return;
-
-        let buffer = "";
+    // === OUTLINE PROPOSALS ===
+    assertNoProposal() {
+        if (this.outlineProposal) throw new Error("Review the proposed outline changes first.");
+    }
 
-        while(true) {
-            const {done, value} = await reader.read();
-            if (done) break;
+    async proposeOutlineRevision(finishedIndex: number, interview: ThreadMessage[], draft: string) {
+        const chapters: OutlineChapter[] = this.bookContext?.chapters || [];
+        // Written chapters and ones with interview progress stay where they are
+        const written = new Set((await this.loadCompletedChapters()).map(c => c.chapter_index));
+        const started = new Set(await this.parkedChapterIndices());
+        if (this.history.length > 0 || this.notes.length > 0 || this.currentDraft) started.add(this.currentChapterIndex);
+        const fixed = chapters.filter(c => written.has(c.index) || started.has(c.index));
+        const remaining = chapters.filter(c => !written.has(c.index) && !started.has(c.index));
+        if (remaining.length === 0) return;
 
-            buffer += decoder.decode(value, { stream: true });
-            
-            const lines = buffer.split('\n');
-            buffer = lines.pop() || "";
-
-            for(const line of lines) {
-                if(line.startsWith('data: ')) {
-                    try {
-                        const json = JSON.parse(line.slice(6));
-                        const text = json.candidates?.[0]?.content?.parts?.[0]?.text;
-                        if(text) {
-                            this.currentDraft += text;
-                            this.broadcast({ type: 'draft_chunk', content: text, reset: false });
+        const tools: ToolDeclaration[] = [
+            {
+                name: "propose_outline_changes",
+                description: "Replaces the remaining (unwritten) chapters of the outline. Keep a chapter's index to retitle or re-summarize it, omit the index for a new chapter, and leave a chapter out to drop it.",
+                parameters: {
+                    type: "OBJECT",
+                    properties: {
+                        reason: { type: "STRING", description: "One or two sentences for the author explaining the change." },
+                        chapters: {
+                            type: "ARRAY",
+                            items: {
+                                type: "OBJECT",
+                                properties: { index: { type: "INTEGER" }, title: { type: "STRING" }, summary: { type: "STRING" } },
+                                required: ["title", "summary"]
+                            }
                         }
-                    } catch(e) {}
+                    },
+                    required: ["reason", "chapters"]
                 }
+            },
+            { name: "keep_outline", description: "The remaining plan still fits; start the next chapter as planned.", parameters: { type: "OBJECT", properties: {} } }
+        ];
+
+        const transcript = interview
+            .filter(m => (m.role === 'user' || m.role === 'assistant') && m.content)
+            .map(m => `${m.role === 'user' ? 'Author' : 'Biographer'}: ${m.content}`)
+            .join("\n");
+
+        const prompt = `You are an expert biographer revisiting the book plan after finishing Chapter ${finishedIndex}.
+                === WRITTEN OR STARTED CHAPTERS (fixed, do not change) ===
+                ${JSON.stringify(fixed)}
+
+                === REMAINING CHAPTERS (you may retitle, re-summarize, reorder, drop or add) ===
+                ${JSON.stringify(remaining)}
+
+                === INTERVIEW FOR CHAPTER ${finishedIndex} ===
+                ${transcript || "(No interview)"}
+
+                === DRAFT OF CHAPTER ${finishedIndex} ===
+                ${draft.slice(0, 20000)}
+
+                TASK: Decide whether what you learned changes the rest of the plan. If it does, call 'propose_outline_changes'
+                with the full list of remaining chapters. Otherwise call 'keep_outline'. Only propose changes that matter.`;
+
+        try {
+            const response = await this.llm().generate({ messages: [{ role: 'user', content: prompt }], tools, toolChoice: 'required' });
+            const call = response.functionCalls.find(c => c.name === 'propose_outline_changes');
+            if (!call || !Array.isArray(call.args.chapters)) return;
+
+            const suggested = call.args.chapters.map((c: any) => ({
+                // Only indices of remaining chapters are meaningful; anything else is treated as a new chapter
+                index: remaining.some(r => r.index === c.index) ? c.index : undefined,
+                title: c.title,
+                summary: c.summary
+            }));
+
+            // Fixed chapters keep their positions and the suggested ones fill the gaps in order
+            const proposed: OutlineProposal['chapters'] = [];
+            for (let position = 1; suggested.length > 0 || fixed.some(c => c.index >= position); position++) {
+                const next = fixed.find(c => c.index === position) ?? suggested.shift();
+                if (!next) throw new Error("The suggested plan leaves a gap before a chapter that is already started.");
+                proposed.push(next);
             }
+
+            const result = validateOutline(chapters, proposed, written, started);
+            const unchanged = JSON.stringify(result.chapters) === JSON.stringify(chapters.map(c => ({ index: c.index, title: c.title, summary: c.summary })));
+            if (unchanged) return;
+
+            this.outlineProposal = { afterChapter: finishedIndex, reason: String(call.args.reason || ""), chapters: proposed, fixed: fixed.map(c => c.index) };
+            await this.state.storage.put("outlineProposal", this.outlineProposal);
+            this.broadcast({ type: 'outline_proposal', content: this.outlineProposal });
+            this.broadcastLog(`Proposed outline changes after Chapter ${finishedIndex}.`);
+        } catch (e: any) {
+            // A failed review never blocks the next chapter
+            this.broadcastLog(`Outline review skipped: ${e.message}`);
         }
     }
 
-    async callGemini(systemInstruction: string, tools?: any[], manualContents?: any[]) {
-        if (!this.config.accountId || !this.config.gatewayId || !this.config.geminiKey) {
-            throw new Error("Missing Cloudflare/Gemini credentials in Durable Object storage.");
+    async resolveOutlineProposal(accept: boolean) {
+        const proposal = this.outlineProposal;
+        if (!proposal) return;
+
+        // The outline may have changed since the proposal was made. A proposal that no longer fits is
+        // dropped like a rejected one, so the user is never left waiting on a proposal that can't be accepted.
+        let plan: ReturnType<typeof validateOutline> | null = null;
+        let failure: string | null = null;
+        if (accept) {
+            const written = await this.loadCompletedChapters();
+            const locked = new Set(written.map(c => c.chapter_index));
+            try {
+                plan = validateOutline(this.bookContext.chapters || [], proposal.chapters, locked, new Set(proposal.fixed));
+            } catch (e: any) {
+                failure = e.message;
+            }
         }
 
-        const url = `https://gateway.ai.cloudflare.com/v1/${this.config.accountId}/${this.config.gatewayId}/google-ai-studio/v1beta/models/gemini-2.5-flash:generateContent`;
-        
-        const contents = manualContents || this.history.map(m => ({ 
-            role: m.role === 'assistant' ? 'model' : m.role === 'tool' ? 'function' : 'user', 
-            parts: m.functionResponse ? [{functionResponse: m.functionResponse}] : m.functionCall ? [{functionCall: m.functionCall}] : [{text: m.content}] 
-        }));
-
-        const body: any = { 
-            contents,
-            system_instruction: systemInstruction ? { parts: [{ text: systemInstruction }] } : undefined 
-        };
-        if (tools) body.tools = [{ function_declarations: tools }];
-        
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 60000); 
+        this.outlineProposal = null;
+        await this.state.storage.delete("outlineProposal");
+
+        if (plan) {
+            const { chapters, moves } = plan;
+            const dropped = (this.bookContext.chapters || []).map((c: OutlineChapter) => c.index).filter((index: number) => !moves.has(index));
+            this.bookContext.chapters = chapters;
+            await this.saveOutline();
+            await this.renumberChapters(moves, dropped);
+            this.broadcast({ type: 'outline', content: this.bookContext });
+
+            // A started chapter stays put; otherwise pick the next chapter again from the new plan
+            if (!proposal.fixed.includes(this.currentChapterIndex)) {
+                await this.loadChapter(await this.nextOpenChapter(proposal.afterChapter));
+                await this.broadcastWorkingState();
+            }
+        }
+        if (failure) this.broadcast({ type: 'error', content: `The proposed outline changes could not be applied, so the outline is unchanged: ${failure}` });
+        this.broadcastLog(`Outline proposal ${failure ? "dropped" : accept ? "accepted" : "rejected"}.`);
+
+        this.broadcast({ type: 'outline_proposal', content: null });
+        await this.greetCurrentChapter();
+    }
+
+    // Text the canvas should show: completed chapters with the working draft in its place
+    visibleManuscript(): string {
+        return joinChapters(this.around.before, this.currentDraft || this.revision?.previousContent || "", this.around.after);
+    }
+
+    // Text before the chapter being written; streamed chunks are appended to it on the client
+    manuscriptPrefix(): string {
+        return this.around.before + (this.around.before ? "\n\n" : "");
+    }
+
+    revisionSummary() {
+        return this.revision ? { chapterIndex: this.revision.chapterIndex, instruction: this.revision.instruction } : null;
+    }
+
+    async loadCompletedChapters() {
+        const { results } = await this.env.DB.prepare("SELECT chapter_index, title, content FROM chapters WHERE book_id = ? AND status = 'completed' ORDER BY chapter_index")
+            .bind(this.bookId).all<{ chapter_index: number; title: string; content: string | null }>();
+        return results;
+    }
+
+    // The chapters table is the source of truth; fullManuscript is its concatenation in outline order.
+    // Call whenever a written chapter or the working chapter changes.
+    async rebuildManuscript() {
+        const chapters = await this.loadCompletedChapters();
+        this.fullManuscript = joinChapters(...chapters.map(c => c.content || ""));
+        this.around = textAround(chapters, this.currentChapterIndex);
+        await this.state.storage.put({ fullManuscript: this.fullManuscript, around: this.around });
+    }
+
+    async manuscriptChapters(): Promise<ManuscriptChapter[]> {
+        const titleOf = (index: number, fallback: string) => this.bookContext?.chapters?.find((c: any) => c.index === index)?.title || fallback;
+        const chapters: ManuscriptChapter[] = (await this.loadCompletedChapters())
+            .filter(c => c.chapter_index !== this.revision?.chapterIndex)
+            .map(c => ({ index: c.chapter_index, title: titleOf(c.chapter_index, c.title), content: c.content || "", status: 'completed' }));
+
+        const working = this.currentDraft || this.revision?.previousContent || "";
+        if (working) {
+            chapters.push({ index: this.currentChapterIndex, title: titleOf(this.currentChapterIndex, `Chapter ${this.currentChapterIndex}`), content: working, status: 'draft' });
+        }
+        return chapters.sort((a, b) => a.index - b.index);
+    }
+
+    async broadcastChapters() {
+        this.broadcast({ type: 'chapters_sync', content: await this.manuscriptChapters() });
+    }
+
+    // Current text of a chapter: the working draft for the chapter in progress, the D1 row otherwise
+    async chapterContent(chapterIndex: number): Promise<string | null> {
+        if (chapterIndex === this.currentChapterIndex) {
+            return this.currentDraft || this.revision?.previousContent || null;
+        }
+        const row = (await this.loadCompletedChapters()).find(c => c.chapter_index === chapterIndex);
+        return row ? row.content || "" : null;
+    }
+
+    async saveChapterContent(chapterIndex: number, content: string, source: VersionSource) {
+        if (chapterIndex === this.currentChapterIndex) {
+            this.currentDraft = content;
+            await this.state.storage.put("currentDraft", this.currentDraft);
+        } else {
+            await this.env.DB.prepare("UPDATE chapters SET content = ? WHERE book_id = ? AND chapter_index = ? AND status = 'completed'")
+                .bind(content, this.bookId, chapterIndex).run();
+            await this.rebuildManuscript();
+        }
+        await this.recordVersion(chapterIndex, content, source);
+        this.broadcast({ type: 'draft_chunk', content: this.visibleManuscript(), reset: true });
+        await this.broadcastChapters();
+    }
+
+    // Every generated or edited text of a chapter is kept, so retries and edits never lose a draft
+    async recordVersion(chapterIndex: number, content: string, source: VersionSource) {
+        if (!content) return;
+        await this.env.DB.prepare(`INSERT INTO chapter_versions (id, book_id, chapter_index, version, content, source, created_at)
+            SELECT ?, ?, ?, COALESCE(MAX(version), 0) + 1, ?, ?, ? FROM chapter_versions WHERE book_id = ? AND chapter_index = ?`)
+            .bind(crypto.randomUUID(), this.bookId, chapterIndex, content, source, Date.now(), this.bookId, chapterIndex).run();
+        this.broadcast({ type: 'versions_changed', content: { chapterIndex } });
+    }
+
+    async sendVersions(ws: WebSocket, chapterIndex: number) {
+        const { results } = await this.env.DB.prepare("SELECT id, version, content, source, created_at FROM chapter_versions WHERE book_id = ? AND chapter_index = ? ORDER BY version DESC")
+            .bind(this.bookId, chapterIndex).all();
+        ws.send(JSON.stringify({ type: 'versions_sync', content: { chapterIndex, versions: results } }));
+    }
+
+    async restoreVersion(ws: WebSocket, versionId: string) {
+        const version = await this.env.DB.prepare("SELECT chapter_index, version, content FROM chapter_versions WHERE id = ? AND book_id = ?")
+            .bind(versionId, this.bookId).first<{ chapter_index: number; version: number; content: string }>();
+        if (!version) throw new Error("That version no longer exists.");
+
+        const chapterIndex = version.chapter_index;
+        const current = await this.chapterContent(chapterIndex);
+        if (current === null && chapterIndex !== this.currentChapterIndex) throw new Error(`Chapter ${chapterIndex} has not been written yet.`);
+        if (this.isWritingChapter(chapterIndex)) return this.sendEditConflict(ws, chapterIndex, current || "", "The biographer is still writing this chapter.");
+
+        await this.saveChapterContent(chapterIndex, version.content, 'restore');
+        this.broadcastLog(`Chapter ${chapterIndex} restored to version ${version.version}.`);
+    }
+
+    isWritingChapter(chapterIndex: number) {
+        return !!this.abortController && chapterIndex === this.currentChapterIndex;
+    }
+
+    sendEditConflict(ws: WebSocket, chapterIndex: number, current: string, reason: string) {
+        ws.send(JSON.stringify({ type: 'edit_conflict', content: { chapterIndex, current, reason } }));
+    }
 
+    // Manual edit from the canvas. baseContent is the text the user started from; if the chapter
+    // changed underneath them (AI rewrite, another tab) the edit is refused instead of clobbering it.
+    async editChapter(ws: WebSocket, chapterIndex: number, content: string, baseContent: string) {
+        const current = await this.chapterContent(chapterIndex);
+        if (current === null) throw new Error(`Chapter ${chapterIndex} has not been written yet.`);
+        if (this.isWritingChapter(chapterIndex)) return this.sendEditConflict(ws, chapterIndex, current, "The biographer is still writing this chapter.");
+        if (current !== baseContent) return this.sendEditConflict(ws, chapterIndex, current, "This chapter changed while you were editing.");
+
+        await this.saveChapterContent(chapterIndex, content, 'edit');
+        this.broadcastLog(`Chapter ${chapterIndex} edited by hand.`);
+    }
+
+    // Streams a replacement for one selected passage back to the requesting socket only.
+    // Nothing is saved until the user accepts it with apply_passage.
+    async rewritePassage(ws: WebSocket, requestId: string, chapterIndex: number, passage: string, instruction: string) {
+        const content = await this.chapterContent(chapterIndex);
+        if (content === null) throw new Error(`Chapter ${chapterIndex} has not been written yet.`);
+        if (this.isWritingChapter(chapterIndex)) throw new Error("Wait for the biographer to finish writing this chapter.");
+
+        const span = locatePassage(content, passage);
+        if (!span) throw new Error("The selected passage could not be found in the chapter.");
+
+        const context = await this.gatherFullContext(this.retrievalQuery(chapterIndex, `${instruction}\n${passage}`), 'all');
+        const prompt = `You are the editor of an autobiography written in the first person.
+        === SUBJECT ===
+        ${context}
+        === CHAPTER ${chapterIndex} ===
+        ${content}
+        === PASSAGE ===
+${content.slice(span.start, span.end)}
+=== END PASSAGE ===
+        INSTRUCTION: ${instruction}
+        TASK: Rewrite ONLY the passage following the instruction. Keep the voice and tense of the chapter.
+        Reply with the replacement text alone: no quotes, no commentary, no headings.`;
+
+        let replacement = "";
         try {
-            const resp = await fetch(url, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json', 'x-goog-api-key': this.config.geminiKey, ...(this.config.aigToken ? { 'cf-aig-authorization': `Bearer ${this.config.aigToken}` } : {}) },
-                body: JSON.stringify(body),
-                signal: controller.signal
-            });
-            clearTimeout(timeoutId);
-
-            if (!resp.ok) {
-                const errText = await resp.text();
-                throw new Error(`Gemini API Failed (${resp.status}): ${errText}`);
-            }
-
-            const data: any = await resp.json();
-            return {
-                text: data.candidates?.[0]?.content?.parts?.[0]?.text,
-                functionCalls: data.candidates?.[0]?.content?.parts?.filter((p:any) => p.functionCall).map((p:any) => p.functionCall)
-            };
-        } catch (e) {
-            clearTimeout(timeoutId);
-            throw e;
+            for await (const text of this.llm().stream({ prompt })) {
+                replacement += text;
+                ws.send(JSON.stringify({ type: 'passage_chunk', requestId, content: text }));
+            }
+        } catch (e: any) {
+            ws.send(JSON.stringify({ type: 'passage_failed', requestId, content: e.message }));
+            return;
         }
+        ws.send(JSON.stringify({ type: 'passage_complete', requestId, content: { chapterIndex, passage, replacement: replacement.trim() } }));
     }
-}
\ No newline at end of file
+
+    async applyPassage(ws: WebSocket, chapterIndex: number, passage: string, replacement: string) {
+        const content = await this.chapterContent(chapterIndex);
+        if (content === null) throw new Error(`Chapter ${chapterIndex} has not been written yet.`);
+        if (this.isWritingChapter(chapterIndex)) return this.sendEditConflict(ws, chapterIndex, content, "The biographer is still writing this chapter.");
+
+        const span = locatePassage(content, passage);
+        if (!span) return this.sendEditConflict(ws, chapterIndex, content, "The passage changed before the rewrite was applied.");
+
+        await this.saveChapterContent(chapterIndex, content.slice(0, span.start) + replacement + content.slice(span.end), 'passage');
+        this.broadcastLog(`Passage in chapter ${chapterIndex} rewritten.`);
+    }
+
+    async broadcastWorkingState() {
+        this.broadcast({ type: 'chapter_index_sync', content: this.currentChapterIndex });
+        this.broadcast({ type: 'chapter_progress_sync', content: await this.parkedChapterIndices() });
+        this.broadcast({ type: 'mode_sync', content: this.mode });
+        this.broadcast({ type: 'notes_sync', content: this.notes });
+        this.broadcast({ type: 'notes_undo_sync', content: this.canUndoNotes() });
+        this.broadcast({ type: 'revision_sync', content: this.revisionSummary() });
+        this.broadcast({ type: 'draft_chunk', content: this.visibleManuscript(), reset: true });
+        this.state.getWebSockets().forEach(socket => this.sendHistory(socket));
+        await this.broadcastChapters();
+    }
+
+    async startRevision(chapterIndex: number, instruction: string) {
+        if (this.isProcessing || this.abortController) throw new Error("Wait for the current response to finish before revising a chapter.");
+        if (this.revision) throw new Error(`Chapter ${this.revision.chapterIndex} is already being revised.`);
+
+        const chapters = await this.loadCompletedChapters();
+        const target = chapters.find(c => c.chapter_index === chapterIndex);
+        if (!target) throw new Error(`Chapter ${chapterIndex} has not been completed yet.`);
+        await archiveChapterNotes(this.env.DB, this.bookId, this.currentChapterIndex, this.notes);
+
+        this.revision = {
+            chapterIndex,
+            instruction,
+            previousContent: target.content || "",
+            stash: {
+                history: this.history,
+                notes: this.notes,
+                currentDraft: this.currentDraft,
+                mode: this.mode,
+                currentChapterIndex: this.currentChapterIndex
+            }
+        };
+
+        this.currentChapterIndex = chapterIndex;
+        this.history = [];
+        // The revision picks up the notes the chapter was written from
+        this.notes = await loadArchivedNotes(this.env.DB, this.bookId, chapterIndex);
+        this.currentDraft = "";
+        this.mode = instruction ? 'writing' : 'interview';
+
+        await this.state.storage.put({
+            revision: this.revision,
+            currentChapterIndex: this.currentChapterIndex,
+            history: this.history,
+            notes: this.notes,
+            currentDraft: this.currentDraft,
+            mode: this.mode
+        });
+        await this.rebuildManuscript();
+
+        if (!instruction) {
+            const title = this.bookContext?.chapters?.find((c: any) => c.index === chapterIndex)?.title || target.title;
+            const opening = `Let's revisit **Chapter ${chapterIndex}: ${title}**. What would you like to add or change?`;
+            await this.addMessageSafe('assistant', opening);
+        }
+
+        this.broadcastLog(`Reopened chapter ${chapterIndex}${instruction ? " for rewrite" : " for re-interview"}.`);
+        await this.broadcastWorkingState();
+
+        if (instruction) await this.runWriterAgent();
+    }
+
+    async endRevision(keep: boolean) {
+        const revision = this.revision;
+        if (!revision) throw new Error("No chapter is being revised.");
+        if (this.abortController) throw new Error("Wait for the rewrite to finish first.");
+
+        const saved = keep && !!this.currentDraft;
+        if (saved) {
+            await this.env.DB.prepare("UPDATE chapters SET content = ? WHERE book_id = ? AND chapter_index = ? AND status = 'completed'")
+                .bind(this.currentDraft, this.bookId, revision.chapterIndex).run();
+        }
+        if (keep) await archiveChapterNotes(this.env.DB, this.bookId, revision.chapterIndex, this.notes);
+
+        this.revision = null;
+        this.history = revision.stash.history;
+        this.notes = withNoteDefaults(revision.stash.notes, revision.stash.currentChapterIndex);
+        this.currentDraft = revision.stash.currentDraft;
+        this.mode = revision.stash.mode;
+        this.currentChapterIndex = revision.stash.currentChapterIndex;
+
+        await this.state.storage.put({
+            currentChapterIndex: this.currentChapterIndex,
+            history: this.history,
+            notes: this.notes,
+            currentDraft: this.currentDraft,
+            mode: this.mode
+        });
+        await this.state.storage.delete("revision");
+        await this.rebuildManuscript();
+
+        this.broadcastLog(saved ? `Chapter ${revision.chapterIndex} revision saved.` : `Chapter ${revision.chapterIndex} revision discarded.`);
+        await this.broadcastWorkingState();
+    }
+
+    async streamDraft(prompt: string, signal?: AbortSignal) {
+        for await (const text of this.llm().stream({ prompt, signal })) {
+            this.currentDraft += text;
+            this.broadcast({ type: 'draft_chunk', content: text, reset: false });
+        }
+    }
+}
@@ -0,0 +1,205 @@
+import { unzipSync, strFromU8 } from 'fflate';
+import { extractTextItems } from 'unpdf';
+
+// Server-side text extraction for uploaded originals. Every source document is stored as the same plain text, so the biographer reads a resume in Word the
+// same way as a scanned journal: paragraphs separated by a blank line, with markers on lines of their own.
+//   [Page 3]              where a new page starts (PDF, and DOCX when Word recorded its page breaks)
+//   [Section: Chapter 2]  where a heading or ebook chapter starts (DOCX, Markdown, EPUB)
+export interface ExtractedDocument {
+    text: string;
+    pageCount: number | null;
+}
+
+export const SUPPORTED_EXTENSIONS = ['.pdf', '.docx', '.txt', '.md', '.markdown', '.epub'];
+
+export const pageMarker = (page: number) => `[Page ${page}]`;
+export const sectionMarker = (title: string) => `[Section: ${title.replace(/\s+/g, ' ').trim()}]`;
+
+// Collapses runs of spaces, trims every line and keeps at most one blank line between paragraphs
+export function normalizeText(text: string): string {
+    return text
+        .replace(/\r\n?/g, '\n')
+        .replace(/\u00a0/g, ' ')
+        .split('\n')
+        .map(line => line.replace(/[ \t\f\v]+/g, ' ').trim())
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+export const extensionOf = (name: string) => name.includes('.') ? name.slice(name.lastIndexOf('.')).toLowerCase() : '';
+
+export const isSupportedDocument = (name: string) => SUPPORTED_EXTENSIONS.includes(extensionOf(name));
+
+const decodeText = (data: Uint8Array) => new TextDecoder().decode(data).replace(/^\uFEFF/, '');
+
+export async function extractDocument(filename: string, data: Uint8Array): Promise<ExtractedDocument> {
+    switch (extensionOf(filename)) {
+        case '.pdf': return extractPdf(data);
+        case '.docx': return extractDocx(data);
+        case '.txt': return { text: normalizeText(decodeText(data)), pageCount: null };
+        case '.md':
+        case '.markdown': return { text: extractMarkdown(decodeText(data)), pageCount: null };
+        case '.epub': return extractEpub(data);
+        default: throw new Error(`Unsupported file type. Use one of ${SUPPORTED_EXTENSIONS.join(', ')}.`);
+    }
+}
+
+// ==========================================
+// PDF: pages in order, each prefixed with its page number
+// ==========================================
+type PdfItem = Awaited<ReturnType<typeof extractTextItems>>['items'][number][number];
+
+// pdfjs flags where lines end; a vertical gap clearly taller than the line itself starts a new paragraph
+function pdfPageText(items: PdfItem[]): string {
+    const lines: { text: string; y: number; height: number }[] = [];
+    let current: { text: string; y: number; height: number } | null = null;
+    for (const item of items) {
+        if (!current) current = { text: "", y: item.y, height: item.height };
+        current.text += item.str;
+        current.height = Math.max(current.height, item.height);
+        if (item.hasEOL) { lines.push(current); current = null; }
+    }
+    if (current) lines.push(current);
+
+    let text = "";
+    lines.forEach((line, i) => {
+        const prev = lines[i - 1];
+        if (!prev) text = line.text;
+        else if (Math.abs(prev.y - line.y) > Math.max(prev.height, line.height, 1) * 1.6 || !line.text.trim()) text += `\n\n${line.text}`;
+        else text = prev.text.endsWith('-') ? text.slice(0, -1) + line.text : `${text} ${line.text}`;
+    });
+    return text;
+}
+
+async function extractPdf(data: Uint8Array): Promise<ExtractedDocument> {
+    // unpdf may transfer the buffer to pdfjs, so hand it a copy and keep the original intact for R2
+    const { totalPages, items } = await extractTextItems(data.slice());
+    const pages = items.map((pageItems, i) => `${pageMarker(i + 1)}\n\n${pdfPageText(pageItems)}`);
+    return { text: normalizeText(pages.join('\n\n')), pageCount: totalPages };
+}
+
+// ==========================================
+// XML helpers (regex based, the documents are machine-written)
+// ==========================================
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+const decodeEntities = (text: string) => text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+        const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+        return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+});
+
+const attr = (tag: string, name: string) => tag.match(new RegExp(`\\s${name}\\s*=\\s*"([^"]*)"`))?.[1] ?? tag.match(new RegExp(`\\s${name}\\s*=\\s*'([^']*)'`))?.[1];
+
+// Inflates only the named entries, so images and fonts in the archive are never unpacked
+const unzipEntries = (data: Uint8Array, paths: string[]) => {
+    const wanted = new Set(paths.flatMap(path => [path, decodeURIComponent(path)]));
+    return unzipSync(data, { filter: f => wanted.has(f.name) });
+};
+
+const readEntry = (files: Record<string, Uint8Array>, path: string) => {
+    const entry = files[path] ?? files[decodeURIComponent(path)];
+    if (!entry) throw new Error(`Missing ${path} in archive.`);
+    return strFromU8(entry);
+};
+
+// ==========================================
+// Markdown: headings become sections, the rest is kept as written
+// ==========================================
+function extractMarkdown(markdown: string): string {
+    const lines = markdown.replace(/\r\n?/g, '\n').split('\n').map(line => {
+        const heading = line.match(/^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/);
+        return heading ? `\n${sectionMarker(heading[1])}\n` : line;
+    });
+    return normalizeText(lines.join('\n'));
+}
+
+// ==========================================
+// DOCX: paragraphs of word/document.xml, headings as sections, rendered page breaks as pages
+// ==========================================
+function extractDocx(data: Uint8Array): ExtractedDocument {
+    const files = unzipEntries(data, ['word/document.xml', 'docProps/app.xml']);
+    const xml = readEntry(files, 'word/document.xml');
+    const body = xml.slice(xml.indexOf('<w:body'));
+
+    // Word records where it broke pages when it last laid the document out; without that, only manual breaks are known
+    const pageBreak = body.includes('<w:lastRenderedPageBreak/>') ? /<w:lastRenderedPageBreak\/>/g : /<w:br\s[^>]*w:type="page"[^>]*\/>/g;
+
+    let page = 1;
+    const blocks: string[] = [];
+    for (const paragraph of body.match(/<w:p[\s>][\s\S]*?<\/w:p>/g) || []) {
+        const breaks = (paragraph.match(pageBreak) || []).length;
+        for (let i = 0; i < breaks; i++) blocks.push(pageMarker(++page));
+
+        const text = decodeEntities((paragraph.match(/<w:t(?:\s[^>]*)?>[^<]*<\/w:t>|<w:tab\/>|<w:br\/>/g) || [])
+            .map(run => run === '<w:tab/>' ? '\t' : run === '<w:br/>' ? '\n' : run.replace(/<[^>]+>/g, ''))
+            .join(''));
+        if (!text.trim()) continue;
+
+        const style = attr(paragraph.match(/<w:pStyle\s[^>]*>/)?.[0] || '', 'w:val') || '';
+        blocks.push(/^(Heading|Title)/i.test(style) ? sectionMarker(text) : text);
+    }
+
+    const pages = files['docProps/app.xml'] ? Number(strFromU8(files['docProps/app.xml']).match(/<Pages>(\d+)<\/Pages>/)?.[1]) : NaN;
+    const text = page > 1 ? [pageMarker(1), ...blocks].join('\n\n') : blocks.join('\n\n');
+    return { text: normalizeText(text), pageCount: Number.isFinite(pages) && pages > 0 ? pages : page > 1 ? page : null };
+}
+
+// ==========================================
+// EPUB: spine documents in reading order, one section per chapter file
+// ==========================================
+const BLOCK_TAGS = /<\/?(p|div|h[1-6]|li|ul|ol|blockquote|section|article|tr|table|pre|hr|figure|figcaption)(\s[^>]*)?\/?>/gi;
+
+const xhtmlToText = (html: string) => decodeEntities(html
+    .replace(/<(script|style|head)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(BLOCK_TAGS, '\n\n')
+    .replace(/<[^>]+>/g, ''));
+
+const resolvePath = (base: string, href: string) => {
+    const parts = base.split('/').slice(0, -1);
+    for (const part of href.split('#')[0].split('/')) {
+        if (part === '..') parts.pop();
+        else if (part && part !== '.') parts.push(part);
+    }
+    return parts.join('/');
+};
+
+// Read in three passes (container, package, spine) so only the chapters themselves are inflated
+function extractEpub(data: Uint8Array): ExtractedDocument {
+    const container = readEntry(unzipEntries(data, ['META-INF/container.xml']), 'META-INF/container.xml');
+    const rootPath = attr(container.match(/<rootfile\s[^>]*>/)?.[0] || '', 'full-path');
+    if (!rootPath) throw new Error('Not an EPUB: container.xml has no rootfile.');
+    const opf = readEntry(unzipEntries(data, [rootPath]), rootPath);
+
+    const manifest = new Map<string, string>();
+    for (const item of opf.match(/<item\s[^>]*>/g) || []) {
+        const id = attr(item, 'id');
+        const href = attr(item, 'href');
+        if (id && href) manifest.set(id, resolvePath(rootPath, href));
+    }
+
+    const spine = (opf.match(/<itemref\s[^>]*>/g) || [])
+        .filter(ref => attr(ref, 'linear') !== 'no')
+        .map(ref => manifest.get(attr(ref, 'idref') || ''))
+        .filter((path): path is string => !!path);
+    const files = unzipEntries(data, spine);
+
+    const sections: string[] = [];
+    for (const path of spine) {
+        const html = readEntry(files, path);
+        // The chapter's first heading becomes its section title instead of repeating in the text
+        const heading = html.match(/<h[1-3][^>]*>([\s\S]*?)<\/h[1-3]>/i);
+        const content = html.slice(Math.max(0, html.search(/<body[\s>]/i)));
+        const body = normalizeText(xhtmlToText(heading ? content.replace(heading[0], '') : content));
+        if (!body) continue;
+
+        const titleHtml = heading?.[1] ?? html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+        const title = titleHtml ? normalizeText(xhtmlToText(titleHtml)) : '';
+        sections.push(`${sectionMarker(title || `Part ${sections.length + 1}`)}\n\n${body}`);
+    }
+    return { text: normalizeText(sections.join('\n\n')), pageCount: null };
+}
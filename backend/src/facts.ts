@@ -0,0 +1,159 @@
+import type { ToolDeclaration } from './llm';
+import type { DocumentDigest } from './api';
+import { fitToBudget } from './retrieval';
+
+// Structured facts about the subject's life, kept in D1 (facts) per user so they outlive chapters and books.
+// The interviewer records them with the record_* tools as the user talks, document digests add theirs,
+// and the writer treats them as ground truth. People have a registry of their own (./people).
+
+export type FactKind = 'event' | 'place' | 'employer' | 'school';
+
+export interface Fact {
+    id: string;
+    kind: FactKind;
+    name: string; // what happened, or where
+    detail: string | null; // role, what they studied...
+    dateStart: string | null; // free-form, like locations
+    dateEnd: string | null;
+    source: string; // see interviewSource / documentSource
+}
+
+export const interviewSource = (bookId: string, chapterIndex: number) => `interview:${bookId}:${chapterIndex}`;
+export const documentSource = (document: string) => `document:${document}`;
+
+const DATES = {
+    date: { type: "STRING", description: "When it started or happened, as precisely as known (e.g. 1994, 1994-06). Empty if unknown." },
+    end_date: { type: "STRING", description: "When it ended. Empty if it hasn't or is unknown." }
+};
+
+export const FACT_TOOLS: ToolDeclaration[] = [
+    {
+        name: "record_event",
+        description: "Record something that happened in the subject's life.",
+        parameters: { type: "OBJECT", properties: { description: { type: "STRING" }, ...DATES }, required: ["description"] }
+    },
+    {
+        name: "record_place",
+        description: "Record a place that mattered in the subject's life.",
+        parameters: { type: "OBJECT", properties: { name: { type: "STRING" }, description: { type: "STRING", description: "What it was to them." }, ...DATES }, required: ["name"] }
+    },
+    {
+        name: "record_employer",
+        description: "Record an employer of the subject.",
+        parameters: { type: "OBJECT", properties: { name: { type: "STRING" }, role: { type: "STRING" }, ...DATES }, required: ["name"] }
+    },
+    {
+        name: "record_school",
+        description: "Record a school, college or university the subject attended.",
+        parameters: { type: "OBJECT", properties: { name: { type: "STRING" }, studied: { type: "STRING", description: "Course, degree or grades." }, ...DATES }, required: ["name"] }
+    }
+];
+
+const KIND_BY_TOOL: Record<string, FactKind> = {
+    record_event: 'event',
+    record_place: 'place',
+    record_employer: 'employer',
+    record_school: 'school'
+};
+
+export const isFactTool = (name: string) => name in KIND_BY_TOOL;
+
+const clean = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : null;
+
+// Turns a record_* call into a fact, or null if it names nothing
+export function factFromCall(name: string, args: Record<string, any>, source: string): Omit<Fact, 'id'> | null {
+    const kind = KIND_BY_TOOL[name];
+    const subject = clean(kind === 'event' ? args.description : args.name);
+    if (!kind || !subject) return null;
+    const detail = clean(args.role ?? args.studied ?? (kind === 'place' ? args.description : null));
+    return { kind, name: subject, detail, dateStart: clean(args.date), dateEnd: clean(args.end_date), source };
+}
+
+interface FactRow {
+    id: string;
+    kind: FactKind;
+    name: string;
+    detail: string | null;
+    date_start: string | null;
+    date_end: string | null;
+    source: string;
+}
+
+const fromRow = (row: FactRow): Fact => ({ id: row.id, kind: row.kind, name: row.name, detail: row.detail, dateStart: row.date_start, dateEnd: row.date_end, source: row.source });
+
+// Stores a fact. Places and organizations are matched by name, so telling more about one
+// fills in its details instead of adding a second entry; events are always new.
+export async function recordFact(db: D1Database, userId: string, fact: Omit<Fact, 'id'>): Promise<Fact> {
+    if (fact.kind !== 'event') {
+        const existing = await db.prepare("SELECT * FROM facts WHERE user_id = ? AND kind = ? AND name = ? COLLATE NOCASE").bind(userId, fact.kind, fact.name).first<FactRow>();
+        if (existing) {
+            const merged = {
+                ...fromRow(existing),
+                detail: fact.detail ?? existing.detail,
+                dateStart: fact.dateStart ?? existing.date_start,
+                dateEnd: fact.dateEnd ?? existing.date_end
+            };
+            await db.prepare("UPDATE facts SET detail = ?, date_start = ?, date_end = ? WHERE id = ?")
+                .bind(merged.detail, merged.dateStart, merged.dateEnd, merged.id).run();
+            return merged;
+        }
+    }
+    const stored = { id: crypto.randomUUID(), ...fact };
+    await db.prepare("INSERT INTO facts (id, user_id, kind, name, detail, date_start, date_end, source, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)")
+        .bind(stored.id, userId, stored.kind, stored.name, stored.detail, stored.dateStart, stored.dateEnd, stored.source, Date.now()).run();
+    return stored;
+}
+
+export async function loadFacts(db: D1Database, userId: string): Promise<Fact[]> {
+    const { results } = await db.prepare("SELECT * FROM facts WHERE user_id = ? ORDER BY date_start IS NULL, date_start, created_at").bind(userId).all<FactRow>();
+    return results.map(fromRow);
+}
+
+// Replaces the facts taken from a document's digest (its people go to the registry instead).
+// Facts the interviewer recorded are left alone.
+export async function replaceDocumentFacts(db: D1Database, userId: string, document: string, digest: DocumentDigest | null) {
+    const source = documentSource(document);
+    await removeDocumentFacts(db, userId, document);
+    if (!digest) return;
+    const facts: Omit<Fact, 'id'>[] = [
+        ...digest.places.map(place => ({ kind: 'place' as const, name: place, detail: null, dateStart: null, dateEnd: null, source })),
+        ...digest.events.map(e => ({ kind: 'event' as const, name: e.description, detail: null, dateStart: e.date, dateEnd: null, source }))
+    ];
+    if (facts.length === 0) return;
+    await db.batch(facts.map(f => db.prepare("INSERT INTO facts (id, user_id, kind, name, detail, date_start, date_end, source, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)")
+        .bind(crypto.randomUUID(), userId, f.kind, f.name, f.detail, f.dateStart, f.dateEnd, f.source, Date.now())));
+}
+
+export const removeDocumentFacts = (db: D1Database, userId: string, document: string) =>
+    db.prepare("DELETE FROM facts WHERE user_id = ? AND source = ?").bind(userId, documentSource(document)).run();
+
+// ==========================================
+// Prompt formatting
+// ==========================================
+// Prompt budget for facts, in characters. A long interview records more than every prompt can carry.
+const FACT_BUDGET = 6000;
+
+const HEADINGS: [FactKind, string][] = [['event', "Events"], ['place', "Places"], ['employer', "Employers"], ['school', "Schools"]];
+
+const sourceLabel = (source: string) => {
+    const [type, ...rest] = source.split(":");
+    return type === 'document' ? `from ${rest.join(":")}` : `told in chapter ${rest[rest.length - 1]}`;
+};
+
+const formatFact = (fact: Fact) => {
+    const when = fact.dateStart ? (fact.dateEnd ? `${fact.dateStart} to ${fact.dateEnd}: ` : `${fact.dateStart}: `) : "";
+    return `- ${when}${fact.name}${fact.detail ? ` (${fact.detail})` : ""} [${sourceLabel(fact.source)}]`;
+};
+
+// Facts as prompt text, under a heading per kind. Over the budget, the facts told in `source` (the chapter being
+// worked on) are kept first, then those closest to `query` (what the chapter is about).
+export const formatFacts = (facts: Fact[], source: string, query: string) => {
+    const kept = fitToBudget(facts, FACT_BUDGET, formatFact, query, f => f.source === source);
+    return HEADINGS
+        .map(([kind, heading]) => {
+            const ofKind = kept.filter(f => f.kind === kind);
+            return ofKind.length ? `${heading}:\n${ofKind.map(formatFact).join("\n")}` : "";
+        })
+        .filter(Boolean)
+        .join("\n");
+};
@@ -1,6 +1,37 @@
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
 import { InterviewSession } from './durable_objects/InterviewSession';
+import { createLLMProvider, type ToolDeclaration } from './llm';
+import { bearerToken, claimLegacyUser, issueAccessToken, verifyAccessToken } from './auth';
+import { extractDocument } from './extract';
+import { formatDigests, generateDigest, loadDigest, loadDigests, removeDigest, saveDigest } from './digest';
+import { removeDocumentFacts, replaceDocumentFacts } from './facts';
+import { recordPerson, removeDocumentPeople } from './people';
+import { documentPrefix, formatPassages, indexDocument, removeDocumentIndex, searchDocuments, syncDocumentIndex } from './retrieval';
+import {
+    ApiError,
+    claimSchema,
+    documentUploadSchema,
+    errorResponse,
+    locationSchema,
+    onboardingSchema,
+    outlineSchema,
+    parseBody,
+    parseForm,
+    startBookSchema,
+    type BookOutline,
+    type ClaimResponse,
+    type DocumentInfo,
+    type DocumentListResponse,
+    type DocumentResponse,
+    type DocumentUploadResponse,
+    type Location,
+    type LocationListResponse,
+    type LocationResponse,
+    type OnboardingResponse,
+    type StartBookResponse,
+    type SuccessResponse
+} from './api';
 
 export { InterviewSession };
 
@@ -12,12 +43,41 @@ type Bindings = {
     CF_GATEWAY_ID: string;
     GEMINI_API_KEY: string;
     CF_AIG_TOKEN?: string;
+    LLM_PROVIDER?: string;
+    SESSION_SIGNING_KEY: string;
 }
 
-const app = new Hono<{ Bindings: Bindings }>();
+type Variables = {
+    userId: string; // owner of the access token
+}
+
+const app = new Hono<{ Bindings: Bindings; Variables: Variables }>();
 
 app.use('/*', cors());
 
+app.onError((e, c) => {
+    if (e instanceof ApiError) return c.json(errorResponse(e.code, e.message, e.issues), e.status);
+    console.error(e);
+    return c.json(errorResponse('INTERNAL', (e as Error).message), 500);
+});
+
+app.notFound((c) => c.json(errorResponse('NOT_FOUND', `No route for ${c.req.method} ${c.req.path}`), 404));
+
+// Every API route needs the device's access token, except onboarding and claiming (which issue it)
+// and the WebSocket, which the session DO checks itself since browsers can't send headers there
+app.use('/api/*', async (c, next) => {
+    if (c.req.path === '/api/onboarding' || c.req.path === '/api/claim' || /^\/api\/session\/[^/]+\/connect$/.test(c.req.path)) return next();
+    const userId = await verifyAccessToken(c.env, bearerToken(c.req.header('Authorization')));
+    if (!userId) throw new ApiError(401, 'UNAUTHORIZED', "Missing or invalid access token.");
+    c.set('userId', userId);
+    await next();
+});
+
+app.use('/api/users/:userId/*', async (c, next) => {
+    if (c.req.param('userId') !== c.get('userId')) throw new ApiError(403, 'FORBIDDEN', "This access token belongs to another user.");
+    await next();
+});
+
 app.get('/', (c) => c.text('Cloudflare AI Autobiography Backend is running!'));
 
 // ==========================================
@@ -34,152 +94,294 @@ app.get('/api/session/:id/connect', async (c) => {
     const idObj = c.env.INTERVIEW_SESSION.idFromName(id);
     const stub = c.env.INTERVIEW_SESSION.get(idObj);
 
-    // Pass credentials to DO via URL params
+    // The DO reads API credentials from its own env; only the book id and the caller's ?token= are passed on
     const url = new URL(c.req.url);
     url.pathname = "/websocket";
     url.searchParams.set("bookId", id);
-    url.searchParams.set("cf_account_id", c.env.CF_ACCOUNT_ID || "");
-    url.searchParams.set("cf_gateway_id", c.env.CF_GATEWAY_ID || "");
-    url.searchParams.set("gemini_key", c.env.GEMINI_API_KEY || "");
-    if (c.env.CF_AIG_TOKEN) {
-        url.searchParams.set("cf_aig_token", c.env.CF_AIG_TOKEN);
-    }
-    
+
     return stub.fetch(new Request(url, c.req.raw));
 });
 
+const createLLM = (env: Bindings) => createLLMProvider({
+    provider: env.LLM_PROVIDER,
+    accountId: env.CF_ACCOUNT_ID,
+    gatewayId: env.CF_GATEWAY_ID,
+    apiKey: env.GEMINI_API_KEY,
+    aigToken: env.CF_AIG_TOKEN
+});
+
+// Sessions cache what they know about the subject. Call after anything that changes the user's
+// documents, residences or profile, so each of their books rebuilds it on the next turn.
+const invalidateSubjectContext = async (env: Bindings, userId: string) => {
+    const { results } = await env.DB.prepare("SELECT id FROM books WHERE user_id = ?").bind(userId).all<{ id: string }>();
+    await Promise.all(results.map(book => {
+        const stub = env.INTERVIEW_SESSION.get(env.INTERVIEW_SESSION.idFromName(book.id));
+        return stub.fetch("https://session/invalidate-context", { method: "POST" });
+    }));
+};
+
 // ==========================================
 // User Onboarding
 // ==========================================
 app.post('/api/onboarding', async (c) => {
-    try {
-        const { name, dob, birthLocation } = await c.req.json();
-        const id = `user_${Date.now()}`;
-        
-        await c.env.DB.prepare(`INSERT INTO users (id, name, dob, created_at) VALUES (?, ?, ?, ?)`).bind(id, name, dob, Date.now()).run();
-
-        if (birthLocation) {
-            // Ensure label is saved correctly for the Context Gatherer
-            await c.env.DB.prepare(`INSERT INTO locations (id, user_id, lat, lng, label, date_start) VALUES (?, ?, ?, ?, ?, ?)`).bind(
-                crypto.randomUUID(), 
-                id, 
-                birthLocation.lat, 
-                birthLocation.lng, 
-                birthLocation.label || 'Birthplace', 
-                dob // Use DOB as date_start for the birthplace
-            ).run();
-        }
+    const { name, dob, birthLocation } = await parseBody(c.req, onboardingSchema);
+    const id = `user_${Date.now()}`;
+    const { token, secretHash } = await issueAccessToken(c.env, id);
 
-        return c.json({ success: true, userId: id });
-    } catch (e) {
-        console.error(e);
-        return c.json({ error: 'Failed to create user', details: (e as Error).message }, 500);
+    await c.env.DB.prepare(`INSERT INTO users (id, name, dob, created_at, secret_hash) VALUES (?, ?, ?, ?, ?)`).bind(id, name, dob, Date.now(), secretHash).run();
+
+    if (birthLocation) {
+        // Ensure label is saved correctly for the Context Gatherer
+        await c.env.DB.prepare(`INSERT INTO locations (id, user_id, lat, lng, label, date_start) VALUES (?, ?, ?, ?, ?, ?)`).bind(
+            crypto.randomUUID(),
+            id,
+            birthLocation.lat,
+            birthLocation.lng,
+            birthLocation.label || 'Birthplace',
+            dob // Use DOB as date_start for the birthplace
+        ).run();
     }
+
+    // The token is only ever shown here; the browser keeps it as its proof of ownership
+    return c.json({ success: true, userId: id, token } satisfies OnboardingResponse);
+});
+
+// Token for a user onboarded before tokens existed (see claimLegacyUser)
+app.post('/api/claim', async (c) => {
+    const { userId, bookId } = await parseBody(c.req, claimSchema);
+    const token = await claimLegacyUser(c.env, userId, bookId);
+    if (!token) throw new ApiError(403, 'FORBIDDEN', "This book can't be claimed. It may already have an access token.");
+    return c.json({ success: true, token } satisfies ClaimResponse);
 });
 
 // ==========================================
-// Document Upload
+// Life Timeline (where the user lived, and when)
 // ==========================================
-app.post('/api/documents', async (c) => {
+app.get('/api/users/:userId/locations', async (c) => {
+    const { results } = await c.env.DB.prepare(
+        "SELECT id, lat, lng, label, date_start, date_end FROM locations WHERE user_id = ? ORDER BY date_start IS NULL, date_start"
+    ).bind(c.req.param('userId')).all<Location>();
+    return c.json({ success: true, locations: results } satisfies LocationListResponse);
+});
+
+app.post('/api/users/:userId/locations', async (c) => {
+    const userId = c.req.param('userId');
+    const { lat, lng, label, dateStart = null, dateEnd = null } = await parseBody(c.req, locationSchema);
+    const id = crypto.randomUUID();
+    await c.env.DB.prepare(`INSERT INTO locations (id, user_id, lat, lng, label, date_start, date_end) VALUES (?, ?, ?, ?, ?, ?, ?)`)
+        .bind(id, userId, lat, lng, label, dateStart, dateEnd).run();
+    await invalidateSubjectContext(c.env, userId);
+    return c.json({ success: true, location: { id, lat, lng, label, date_start: dateStart, date_end: dateEnd } } satisfies LocationResponse);
+});
+
+app.put('/api/users/:userId/locations/:id', async (c) => {
+    const { userId, id } = c.req.param();
+    const { lat, lng, label, dateStart = null, dateEnd = null } = await parseBody(c.req, locationSchema);
+    const result = await c.env.DB.prepare(`UPDATE locations SET lat = ?, lng = ?, label = ?, date_start = ?, date_end = ? WHERE id = ? AND user_id = ?`)
+        .bind(lat, lng, label, dateStart, dateEnd, id, userId).run();
+    if (!result.meta.changes) throw new ApiError(404, 'NOT_FOUND', "Location not found.");
+    await invalidateSubjectContext(c.env, userId);
+    return c.json({ success: true, location: { id, lat, lng, label, date_start: dateStart, date_end: dateEnd } } satisfies LocationResponse);
+});
+
+app.delete('/api/users/:userId/locations/:id', async (c) => {
+    const { userId, id } = c.req.param();
+    const result = await c.env.DB.prepare("DELETE FROM locations WHERE id = ? AND user_id = ?").bind(id, userId).run();
+    if (!result.meta.changes) throw new ApiError(404, 'NOT_FOUND', "Location not found.");
+    await invalidateSubjectContext(c.env, userId);
+    return c.json({ success: true } satisfies SuccessResponse);
+});
+
+// ==========================================
+// Document Library. Originals live under originals/<userId>/<filename>, the text the biographer reads
+// under documents/<userId>/<filename>. Text is always extracted here so it can be redone from the original,
+// and indexed into passages for retrieval.
+// ==========================================
+const originalKey = (userId: string, name: string) => `originals/${userId}/${name}`;
+
+const toDocumentInfo = (object: R2Object, prefix: string): DocumentInfo => {
+    const meta = object.customMetadata || {};
+    return {
+        name: object.key.slice(prefix.length),
+        size: meta.originalSize ? Number(meta.originalSize) : object.size,
+        uploadedAt: object.uploaded.getTime(),
+        pageCount: meta.pageCount ? Number(meta.pageCount) : null,
+        hasOriginal: !!meta.originalSize
+    };
+};
+
+// Extracts the text of an original, stores it next to the others, indexes its passages and digests it.
+// The digest's places and events go into the fact store, its people into the registry.
+const storeExtractedText = async (env: Bindings, userId: string, name: string, original: Uint8Array) => {
+    let extracted;
+    try {
+        extracted = await extractDocument(name, original);
+    } catch (e) {
+        throw new ApiError(400, 'VALIDATION_FAILED', `Could not read ${name}: ${(e as Error).message}`);
+    }
+    const customMetadata: Record<string, string> = { originalSize: String(original.byteLength) };
+    if (extracted.pageCount !== null) customMetadata.pageCount = String(extracted.pageCount);
+    const stored = await env.BUCKET.put(documentPrefix(userId) + name, extracted.text, { customMetadata });
+    await indexDocument(env.DB, userId, name, extracted.text);
+
+    // Without a digest the biographer reads the document's passages instead, so a failed one doesn't fail the upload
+    await removeDigest(env.DB, userId, name);
+    let digest = null;
     try {
-        const { userId, filename, text } = await c.req.json();
-        const key = `documents/${userId}/${filename}`;
-        await c.env.BUCKET.put(key, text);
-        return c.json({ success: true, key });
+        digest = await generateDigest(createLLM(env), name, extracted.text);
+        if (digest) await saveDigest(env.DB, userId, name, digest);
     } catch (e) {
-        return c.json({ error: 'Upload failed', details: (e as Error).message }, 500);
+        console.error(`Digest of ${name} failed`, e);
     }
+    await replaceDocumentFacts(env.DB, userId, name, digest);
+    await removeDocumentPeople(env.DB, userId, name);
+    for (const person of digest?.people ?? []) await recordPerson(env.DB, userId, { name: person.name, relationship: person.relation }, { document: name });
+    return stored;
+};
+
+app.get('/api/documents', async (c) => {
+    const prefix = documentPrefix(c.get('userId'));
+    const documents: DocumentInfo[] = [];
+    let cursor: string | undefined;
+    do {
+        // `include` is supported by R2 but missing from the default workers-types entrypoint
+        const page = await c.env.BUCKET.list({ prefix, cursor, include: ['customMetadata'] } as R2ListOptions);
+        documents.push(...page.objects.map(o => toDocumentInfo(o, prefix)));
+        cursor = page.truncated ? page.cursor : undefined;
+    } while (cursor);
+    return c.json({ success: true, documents } satisfies DocumentListResponse);
+});
+
+app.get('/api/documents/:name', async (c) => {
+    const userId = c.get('userId');
+    const name = c.req.param('name');
+    const prefix = documentPrefix(userId);
+    const file = await c.env.BUCKET.get(prefix + name);
+    if (!file) throw new ApiError(404, 'NOT_FOUND', "Document not found.");
+    const digest = await loadDigest(c.env.DB, userId, name);
+    return c.json({ success: true, document: toDocumentInfo(file, prefix), text: await file.text(), digest } satisfies DocumentResponse);
+});
+
+app.get('/api/documents/:name/original', async (c) => {
+    const name = c.req.param('name');
+    const file = await c.env.BUCKET.get(originalKey(c.get('userId'), name));
+    if (!file) throw new ApiError(404, 'NOT_FOUND', "The original of this document was not kept.");
+    return new Response(file.body, {
+        headers: {
+            'Content-Type': file.httpMetadata?.contentType || 'application/octet-stream',
+            'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(name)}`
+        }
+    });
+});
+
+app.post('/api/documents', async (c) => {
+    const userId = c.get('userId');
+    const { file, replace } = await parseForm(c.req, documentUploadSchema);
+    const name = file.name;
+    if (!replace && await c.env.BUCKET.head(documentPrefix(userId) + name)) {
+        throw new ApiError(409, 'CONFLICT', `A document named "${name}" is already in your archives.`);
+    }
+
+    const original = new Uint8Array(await file.arrayBuffer());
+    // Extract first so a file we can't read never replaces a good one
+    const stored = await storeExtractedText(c.env, userId, name, original);
+    await c.env.BUCKET.put(originalKey(userId, name), original, { httpMetadata: { contentType: file.type || 'application/octet-stream' } });
+    await invalidateSubjectContext(c.env, userId);
+    return c.json({ success: true, key: stored.key, document: toDocumentInfo(stored, documentPrefix(userId)) } satisfies DocumentUploadResponse);
+});
+
+// Redo the text from the kept original, e.g. after the extractors improve
+app.post('/api/documents/:name/extract', async (c) => {
+    const userId = c.get('userId');
+    const name = c.req.param('name');
+    const original = await c.env.BUCKET.get(originalKey(userId, name));
+    if (!original) throw new ApiError(404, 'NOT_FOUND', "The original of this document was not kept. Upload it again to re-extract it.");
+    const stored = await storeExtractedText(c.env, userId, name, new Uint8Array(await original.arrayBuffer()));
+    await invalidateSubjectContext(c.env, userId);
+    return c.json({ success: true, key: stored.key, document: toDocumentInfo(stored, documentPrefix(userId)) } satisfies DocumentUploadResponse);
+});
+
+app.delete('/api/documents/:name', async (c) => {
+    const userId = c.get('userId');
+    const name = c.req.param('name');
+    const key = documentPrefix(userId) + name;
+    if (!await c.env.BUCKET.head(key)) throw new ApiError(404, 'NOT_FOUND', "Document not found.");
+    await c.env.BUCKET.delete([key, originalKey(userId, name)]);
+    await removeDocumentIndex(c.env.DB, userId, name);
+    await removeDigest(c.env.DB, userId, name);
+    await removeDocumentFacts(c.env.DB, userId, name);
+    await removeDocumentPeople(c.env.DB, userId, name);
+    await invalidateSubjectContext(c.env, userId);
+    return c.json({ success: true } satisfies SuccessResponse);
 });
 
 // ==========================================
 // Start Book / Generate Outline
 // ==========================================
+const OUTLINE_QUERY = "born birth childhood grew up family parents school college university graduated first job career work moved married children";
+const OUTLINE_PASSAGE_BUDGET = 24000;
+
 app.post('/api/books/start', async (c) => {
-    try {
-        const { userId, title } = await c.req.json();
-
-        // 1. Fetch Context for Outline Generation
-        const user = await c.env.DB.prepare("SELECT * FROM users WHERE id = ?").bind(userId).first();
-        const list = await c.env.BUCKET.list({ prefix: `documents/${userId}/` });
-     
-        let docContext = "";
-        
-        if (list && list.objects) {
-            for (const object of list.objects) {
-                const file = await c.env.BUCKET.get(object.key);
-                if (file) docContext += `\n--- Document: ${object.key} ---\n${await file.text()}\n`;
-            }
-        }
-        if (!docContext) docContext = "User has not uploaded any documents yet.";
-
-        // 2. Define Tool
-        const saveOutlineTool = {
-            name: "save_outline",
-            description: "Saves the structured outline.",
-            parameters: {
-                type: "OBJECT",
-                properties: {
-                    title: { type: "STRING" },
-                    chapters: {
-                        type: "ARRAY",
-                        items: {
-                            type: "OBJECT",
-                            properties: {
-                                index: { type: "INTEGER" },
-                                title: { type: "STRING" },
-                                summary: { type: "STRING" }
-                            },
-                            required: ["index", "title", "summary"]
-                        }
+    const userId = c.get('userId');
+    const { title } = await parseBody(c.req, startBookSchema);
+
+    // 1. Fetch Context for Outline Generation
+    const user = await c.env.DB.prepare("SELECT * FROM users WHERE id = ?").bind(userId).first();
+    // Digests cover each document as a whole. Documents without one are searched for the milestones an outline is built around.
+    await syncDocumentIndex(c.env, userId);
+    const digests = await loadDigests(c.env.DB, userId);
+    const passages = await searchDocuments(c.env.DB, userId, `${title || ""} ${OUTLINE_QUERY}`, OUTLINE_PASSAGE_BUDGET, new Set(digests.keys()));
+    const docContext = [formatDigests(digests), formatPassages(passages)].filter(Boolean).join("\n\n") || "No documents uploaded yet, or none that mention these milestones.";
+
+    // 2. Define Tool
+    const saveOutlineTool: ToolDeclaration = {
+        name: "save_outline",
+        description: "Saves the structured outline.",
+        parameters: {
+            type: "OBJECT",
+            properties: {
+                title: { type: "STRING" },
+                chapters: {
+                    type: "ARRAY",
+                    items: {
+                        type: "OBJECT",
+                        properties: {
+                            index: { type: "INTEGER" },
+                            title: { type: "STRING" },
+                            summary: { type: "STRING" }
+                        },
+                        required: ["index", "title", "summary"]
                     }
-                },
-                required: ["title", "chapters"]
-            }
-        };
-
-        // 3. Call AI
-        const systemPrompt = `You are an expert biographer.
-        User: ${user?.name}, Born: ${user?.dob}. 
-        
-        Based on the attached documents, create a compelling book outline for their autobiography. 
-        You MUST call the 'save_outline' function to return the result.`;
-        
-        const userContent = `Documents:\n${docContext}`;
-
-        const gatewayUrl = `https://gateway.ai.cloudflare.com/v1/${c.env.CF_ACCOUNT_ID}/${c.env.CF_GATEWAY_ID}/google-ai-studio/v1beta/models/gemini-2.5-flash:generateContent`;
-        
-        const response = await fetch(gatewayUrl, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'x-goog-api-key': c.env.GEMINI_API_KEY,
-                ...(c.env.CF_AIG_TOKEN ? { 'cf-aig-authorization': `Bearer ${c.env.CF_AIG_TOKEN}` } : {})
+                }
             },
-            body: JSON.stringify({
-                contents: [{ role: "user", parts: [{ text: systemPrompt + "\n\n" + userContent }] }],
-                tools: [{ function_declarations: [saveOutlineTool] }],
-                tool_config: { function_calling_config: { mode: "ANY" } }
-            })
-        });
+            required: ["title", "chapters"]
+        }
+    };
 
-        if (!response.ok) throw new Error(await response.text());
+    // 3. Call AI
+    const systemPrompt = `You are an expert biographer.
+    User: ${user?.name}, Born: ${user?.dob}.
 
-        const data: any = await response.json();
-        const args = data.candidates?.[0]?.content?.parts?.[0]?.functionCall?.args;
-        
-        // Fallback
-        const outlineData = args || { title: title || "My Story", chapters: [{ index: 1, title: "Introduction", summary: "The beginning." }] };
+    Based on these digests and passages from their documents, create a compelling book outline for their autobiography.
+    You MUST call the 'save_outline' function to return the result.`;
 
-        // 4. Save
-        const bookId = crypto.randomUUID();
-        await c.env.DB.prepare(`INSERT INTO books (id, user_id, title, outline_json) VALUES (?, ?, ?, ?)`).bind(bookId, userId, outlineData.title, JSON.stringify(outlineData)).run();
+    const userContent = `Documents:\n${docContext}`;
 
-        return c.json({ success: true, bookId, outline: outlineData });
+    const response = await createLLM(c.env).generate({
+        messages: [{ role: 'user', content: systemPrompt + "\n\n" + userContent }],
+        tools: [saveOutlineTool],
+        toolChoice: 'required'
+    });
+    const parsed = outlineSchema.safeParse(response.functionCalls.find(call => call.name === 'save_outline')?.args);
 
-    } catch (e) {
-        console.error(e);
-        return c.json({ error: (e as Error).message }, 500);
-    }
+    // Fallback
+    const outlineData: BookOutline = parsed.success ? parsed.data : { title: title || "My Story", chapters: [{ index: 1, title: "Introduction", summary: "The beginning." }] };
+
+    // 4. Save
+    const bookId = crypto.randomUUID();
+    await c.env.DB.prepare(`INSERT INTO books (id, user_id, title, outline_json) VALUES (?, ?, ?, ?)`).bind(bookId, userId, outlineData.title, JSON.stringify(outlineData)).run();
+
+    return c.json({ success: true, bookId, outline: outlineData } satisfies StartBookResponse);
 });
 
-export default app;
\ No newline at end of file
+export default app;
@@ -0,0 +1,128 @@
+import type { GenerateRequest, GenerateResult, LLMMessage, LLMProvider, StreamRequest } from './types';
+
+export interface GeminiGatewayConfig {
+    accountId: string;
+    gatewayId: string;
+    apiKey: string;
+    aigToken?: string;
+    model?: string;
+    timeoutMs?: number;
+}
+
+const DEFAULT_MODEL = "gemini-2.5-flash";
+
+// Gemini through Cloudflare AI Gateway (google-ai-studio route)
+export class GeminiGatewayProvider implements LLMProvider {
+    readonly name = "gemini";
+
+    constructor(private config: GeminiGatewayConfig) {}
+
+    private endpoint(method: 'generateContent' | 'streamGenerateContent') {
+        const { accountId, gatewayId, model } = this.config;
+        const suffix = method === 'streamGenerateContent' ? '?alt=sse' : '';
+        return `https://gateway.ai.cloudflare.com/v1/${accountId}/${gatewayId}/google-ai-studio/v1beta/models/${model || DEFAULT_MODEL}:${method}${suffix}`;
+    }
+
+    private headers(): Record<string, string> {
+        return {
+            'Content-Type': 'application/json',
+            'x-goog-api-key': this.config.apiKey,
+            ...(this.config.aigToken ? { 'cf-aig-authorization': `Bearer ${this.config.aigToken}` } : {})
+        };
+    }
+
+    private assertConfigured() {
+        if (!this.config.accountId || !this.config.gatewayId || !this.config.apiKey) {
+            throw new Error("Missing Cloudflare/Gemini credentials.");
+        }
+    }
+
+    static toContents(messages: LLMMessage[]) {
+        return messages.map(m => ({
+            role: m.role === 'assistant' ? 'model' : m.role === 'tool' ? 'function' : 'user',
+            parts: m.functionResponse ? [{ functionResponse: m.functionResponse }] : m.functionCall ? [{ functionCall: m.functionCall }] : [{ text: m.content }]
+        }));
+    }
+
+    async generate(request: GenerateRequest): Promise<GenerateResult> {
+        this.assertConfigured();
+
+        const body: any = {
+            contents: GeminiGatewayProvider.toContents(request.messages),
+            system_instruction: request.system ? { parts: [{ text: request.system }] } : undefined
+        };
+        if (request.tools && request.tools.length > 0) {
+            body.tools = [{ function_declarations: request.tools }];
+            if (request.toolChoice === 'required') {
+                body.tool_config = { function_calling_config: { mode: "ANY" } };
+            }
+        }
+
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), this.config.timeoutMs ?? 60000);
+        const onAbort = () => controller.abort();
+        request.signal?.addEventListener('abort', onAbort);
+
+        try {
+            const resp = await fetch(this.endpoint('generateContent'), {
+                method: 'POST',
+                headers: this.headers(),
+                body: JSON.stringify(body),
+                signal: controller.signal
+            });
+
+            if (!resp.ok) {
+                const errText = await resp.text();
+                throw new Error(`Gemini API Failed (${resp.status}): ${errText}`);
+            }
+
+            const data: any = await resp.json();
+            const parts: any[] = data.candidates?.[0]?.content?.parts || [];
+            return {
+                text: parts.find(p => typeof p.text === 'string')?.text,
+                functionCalls: parts.filter(p => p.functionCall).map(p => ({ name: p.functionCall.name, args: p.functionCall.args || {} }))
+            };
+        } finally {
+            clearTimeout(timeoutId);
+            request.signal?.removeEventListener('abort', onAbort);
+        }
+    }
+
+    async *stream(request: StreamRequest): AsyncIterable<string> {
+        this.assertConfigured();
+
+        const response = await fetch(this.endpoint('streamGenerateContent'), {
+            method: 'POST',
+            headers: this.headers(),
+            body: JSON.stringify({ contents: [{ role: "user", parts: [{ text: request.prompt }] }] }),
+            signal: request.signal
+        });
+        if (!response.ok) {
+            throw new Error(`Gemini API Failed (${response.status}): ${await response.text()}`);
+        }
+
+        const reader = response.body?.getReader();
+        if (!reader) return;
+        const decoder = new TextDecoder();
+        let buffer = "";
+
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || "";
+
+            for (const line of lines) {
+                if (!line.startsWith('data: ')) continue;
+                let text: string | undefined;
+                try {
+                    const json = JSON.parse(line.slice(6));
+                    text = json.candidates?.[0]?.content?.parts?.[0]?.text;
+                } catch (e) {}
+                if (text) yield text;
+            }
+        }
+    }
+}
@@ -0,0 +1,23 @@
+import { GeminiGatewayProvider, type GeminiGatewayConfig } from './gemini';
+import { MockProvider } from './mock';
+import type { LLMProvider } from './types';
+
+export * from './types';
+export { GeminiGatewayProvider } from './gemini';
+export { MockProvider } from './mock';
+
+export interface LLMSettings extends GeminiGatewayConfig {
+    // "gemini" (default) or "mock" for offline development
+    provider?: string;
+}
+
+export function createLLMProvider(settings: LLMSettings): LLMProvider {
+    switch ((settings.provider || "gemini").toLowerCase()) {
+        case "mock":
+            return new MockProvider();
+        case "gemini":
+            return new GeminiGatewayProvider(settings);
+        default:
+            throw new Error(`Unknown LLM_PROVIDER "${settings.provider}". Expected "gemini" or "mock".`);
+    }
+}
@@ -0,0 +1,175 @@
+import type { GenerateRequest, GenerateResult, LLMFunctionCall, LLMMessage, LLMProvider, StreamRequest, ToolDeclaration, ToolSchema } from './types';
+
+// Deterministic offline provider. Same input -> same output, no network, no API key.
+// Enough to drive interview -> outline -> writing end to end on a laptop.
+
+type ToolHandler = (request: GenerateRequest) => GenerateResult | null;
+
+const INTERVIEW_TURNS_BEFORE_FINALIZE = 3;
+const FINISH_PATTERN = /\b(done|that's all|that is all|next chapter|wrap up)\b/i;
+
+const call = (name: string, args: Record<string, any>): GenerateResult => ({ functionCalls: [{ name, args }] });
+
+const lastMessage = (messages: LLMMessage[]) => messages[messages.length - 1];
+
+const lastUserText = (messages: LLMMessage[]) => {
+    for (let i = messages.length - 1; i >= 0; i--) {
+        if (messages[i].role === 'user' && messages[i].content) return messages[i].content as string;
+    }
+    return "";
+};
+
+const clip = (text: string, max: number) => text.length > max ? text.slice(0, max).trimEnd() + "..." : text;
+
+// Fills a tool's parameters with placeholder values so unknown tools still get a well-formed call
+export function synthesizeArgs(schema: ToolSchema | undefined, label = "value"): any {
+    if (!schema) return {};
+    switch (schema.type?.toUpperCase()) {
+        case 'OBJECT': {
+            const out: Record<string, any> = {};
+            for (const [key, child] of Object.entries(schema.properties || {})) {
+                out[key] = synthesizeArgs(child, key);
+            }
+            return out;
+        }
+        case 'ARRAY': return [synthesizeArgs(schema.items, label)];
+        case 'INTEGER': return 1;
+        case 'NUMBER': return 1;
+        case 'BOOLEAN': return false;
+        default: return schema.enum?.[0] ?? `Mock ${label}`;
+    }
+}
+
+const TOOL_HANDLERS: Record<string, ToolHandler> = {
+    save_outline: () => call('save_outline', {
+        title: "My Story",
+        chapters: [
+            { index: 1, title: "Beginnings", summary: "Early childhood, family and the place I was born." },
+            { index: 2, title: "Growing Up", summary: "School years, friendships and first ambitions." },
+            { index: 3, title: "Setting Out", summary: "Leaving home and finding my own way." }
+        ]
+    }),
+
+    // Document digest: the opening sentence as the summary, the years it mentions as its span and
+    // the people it introduces as "my <relation> <Name>"
+    save_digest: (request) => {
+        const text = (request.messages[0]?.content || "").split("=== DOCUMENT ===")[1]?.trim() || "";
+        const years = (text.match(/\b(?:19|20)\d{2}\b/g) || []).sort();
+        const people = [...text.matchAll(/\b[Mm]y (\w+) ([A-Z]\w+)/g)].map(([, relation, name]) => ({ name, relation: relation.toLowerCase() }));
+        return call('save_digest', {
+            summary: clip(text.split(/(?<=[.!?])\s/)[0] || "An empty document.", 200),
+            periodStart: years[0] || "",
+            periodEnd: years[years.length - 1] || "",
+            people,
+            places: [],
+            events: []
+        });
+    },
+
+    append_chapters: () => call('append_chapters', {
+        new_chapters: [
+            { title: "New Horizons", summary: "The next chapter of life and what it brought." },
+            { title: "Looking Back", summary: "Reflections on the journey so far." }
+        ]
+    }),
+
+    // Outline review: when the author asked for "a chapter about X", put it next in line; otherwise keep the plan
+    propose_outline_changes: (request) => {
+        const prompt = request.messages[0]?.content || "";
+        const topic = prompt.match(/^\s*Author:.*\bchapter about ([^.!?\n]+)/im)?.[1]?.trim();
+        if (!topic) return call('keep_outline', {});
+
+        const remaining = prompt.match(/=== REMAINING CHAPTERS[^\n]*\n\s*(\[.*\])/)?.[1];
+        const title = topic.charAt(0).toUpperCase() + topic.slice(1);
+        return call('propose_outline_changes', {
+            reason: `You mentioned ${topic}; it deserves its own chapter.`,
+            chapters: [{ title, summary: `All about ${topic}.` }, ...(remaining ? JSON.parse(remaining) : [])]
+        });
+    },
+
+    // Interviewer loop: note what the user said, then ask a follow-up. Finalize after a few answers.
+    finalize_interview: (request) => {
+        const last = lastMessage(request.messages);
+        if (!last) return null;
+
+        if (last.role === 'user') {
+            const userTurns = request.messages.filter(m => m.role === 'user').length;
+            if (userTurns >= INTERVIEW_TURNS_BEFORE_FINALIZE || FINISH_PATTERN.test(last.content || "")) {
+                return call('finalize_interview', {});
+            }
+            const note = call('create_note', { content: `User shared: ${clip(last.content || "", 120)}` });
+            // Answers that mention a year are also kept as a dated event
+            const year = last.content?.match(/\b(?:19|20)\d{2}\b/)?.[0];
+            if (year && request.tools?.some(t => t.name === 'record_event')) {
+                note.functionCalls.push({ name: 'record_event', args: { description: clip(last.content || "", 120), date: year } });
+            }
+            return note;
+        }
+
+        return { text: `Thank you. What do you remember most vividly about "${clip(lastUserText(request.messages), 60)}"?`, functionCalls: [] };
+    }
+};
+
+export class MockProvider implements LLMProvider {
+    readonly name = "mock";
+
+    constructor(private chunkSize = 40) {}
+
+    private findHandler(tools: ToolDeclaration[]) {
+        for (const tool of tools) {
+            if (TOOL_HANDLERS[tool.name]) return TOOL_HANDLERS[tool.name];
+        }
+        return null;
+    }
+
+    async generate(request: GenerateRequest): Promise<GenerateResult> {
+        if (request.signal?.aborted) throw new Error("Aborted");
+        const tools = request.tools || [];
+
+        const handled = this.findHandler(tools)?.(request);
+        if (handled) return handled;
+
+        if (tools.length > 0 && request.toolChoice === 'required') {
+            const calls: LLMFunctionCall[] = [{ name: tools[0].name, args: synthesizeArgs(tools[0].parameters) }];
+            return { functionCalls: calls };
+        }
+
+        const said = lastUserText(request.messages);
+        return { text: said ? `(mock) I hear you: "${clip(said, 80)}". Tell me more.` : "(mock) Tell me more.", functionCalls: [] };
+    }
+
+    async *stream(request: StreamRequest): AsyncIterable<string> {
+        yield* this.chunk(this.passageRewrite(request.prompt) ?? this.chapterDraft(request.prompt), request.signal);
+    }
+
+    // Passage edits echo the passage tagged with the instruction, so tests can see what was replaced
+    private passageRewrite(prompt: string): string | null {
+        const passage = prompt.match(/=== PASSAGE ===\n([\s\S]*?)\n=== END PASSAGE ===/)?.[1];
+        if (passage === undefined) return null;
+        const instruction = prompt.match(/INSTRUCTION: (.*)/)?.[1]?.trim() || "rewrite";
+        return `${passage.trim()} [${instruction}]`;
+    }
+
+    private chapterDraft(prompt: string): string {
+        const match = prompt.match(/Write Chapter (\d+):\s*"?([^"\n.]*)"?/);
+        const index = match?.[1] || "1";
+        const title = match?.[2]?.trim() || "Untitled";
+
+        const revision = prompt.match(/Revision instructions: (.*)/)?.[1]?.trim();
+
+        return [
+            `# Chapter ${index}: ${title}`,
+            `I still remember how this part of my life began. It was an ordinary season that turned out to matter more than I knew.`,
+            `There were people who shaped me then, and places that I carry with me still. Looking back, I can see the thread running through it all.`,
+            revision ? `(Revised: ${revision})` : "",
+            `That is where this chapter of my story ends, and the next one begins.`
+        ].filter(Boolean).join("\n\n");
+    }
+
+    private async *chunk(text: string, signal?: AbortSignal) {
+        for (let i = 0; i < text.length; i += this.chunkSize) {
+            if (signal?.aborted) throw new Error("Aborted");
+            yield text.slice(i, i + this.chunkSize);
+        }
+    }
+}
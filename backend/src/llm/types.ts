@@ -0,0 +1,56 @@
+// Provider-neutral types shared by every LLM backend.
+// Tool schemas use the Gemini/OpenAPI subset ("OBJECT", "STRING", ...) since that is what the prompts were written against.
+
+export type LLMRole = 'user' | 'assistant' | 'system' | 'tool';
+
+export interface LLMFunctionCall {
+    name: string;
+    args: Record<string, any>;
+}
+
+export interface LLMMessage {
+    role: LLMRole;
+    content?: string;
+    functionCall?: LLMFunctionCall;
+    functionResponse?: { name: string; response: any };
+}
+
+export interface ToolSchema {
+    type: string;
+    description?: string;
+    properties?: Record<string, ToolSchema>;
+    items?: ToolSchema;
+    required?: string[];
+    enum?: string[];
+}
+
+export interface ToolDeclaration {
+    name: string;
+    description: string;
+    parameters: ToolSchema;
+}
+
+export interface GenerateRequest {
+    system?: string;
+    messages: LLMMessage[];
+    tools?: ToolDeclaration[];
+    // 'required' forces the model to answer with a function call
+    toolChoice?: 'auto' | 'required';
+    signal?: AbortSignal;
+}
+
+export interface GenerateResult {
+    text?: string;
+    functionCalls: LLMFunctionCall[];
+}
+
+export interface StreamRequest {
+    prompt: string;
+    signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+    readonly name: string;
+    generate(request: GenerateRequest): Promise<GenerateResult>;
+    stream(request: StreamRequest): AsyncIterable<string>;
+}
@@ -0,0 +1,172 @@
+import { applyNoteChange, type NoteChange, type NoteItem } from './api/notes';
+
+// Interview notes. The session keeps the working chapter's notes in its storage; whenever a chapter's notes
+// leave the working set (the chapter is finished, parked or revised) they are copied to D1 (notes), so the
+// book keeps every note it ever took. Later chapters read the archive as background, and the Notepad searches it.
+// The note model itself is shared with the frontend (./api/notes).
+
+export { applyNoteChange, type NoteChange, type NoteItem };
+
+// Prompt budget for notes from other chapters, in characters. The most recent chapters win.
+const ARCHIVE_BUDGET = 8000;
+const SEARCH_LIMIT = 100;
+
+export const normalizeTags = (tags: unknown): string[] => Array.isArray(tags)
+    ? [...new Set(tags.filter((t): t is string => typeof t === 'string').map(t => t.trim().replace(/^#/, "").toLowerCase()).filter(Boolean))]
+    : [];
+
+// Notes stored before they carried metadata count as the interviewer's, taken at an unknown time
+export const withNoteDefaults = (notes: Partial<NoteItem>[] | undefined, chapterIndex: number): NoteItem[] =>
+    (notes || []).map(n => ({ source: 'ai', chapterIndex, createdAt: 0, updatedAt: 0, ...n, tags: normalizeTags(n.tags) } as NoteItem));
+
+// What the prompts see of the notes: metadata is for the notepad
+export const notesForPrompt = (notes: NoteItem[]) => JSON.stringify(notes.map(n => n.tags.length ? { content: n.content, tags: n.tags } : { content: n.content }));
+
+// ==========================================
+// Operations
+// ==========================================
+// The notepad changes notes one operation at a time. Notes are placed by the note they follow
+// (afterId: null for the top, left out for the bottom), so an operation means the same thing whatever else moved.
+// Edits only carry the fields they change, so an edit to a note's tags never undoes one to its content.
+// A content edit from the notepad names the text it started from (baseContent), and is refused if the note
+// has changed since, instead of overwriting whoever changed it.
+export type NoteOp =
+    | { type: 'add'; id: string; content: string; tags: string[]; afterId?: string | null }
+    | { type: 'edit'; id: string; content?: string; tags?: string[]; baseContent?: string }
+    | { type: 'delete'; id: string }
+    | { type: 'move'; id: string; afterId: string | null }
+    | { type: 'put'; note: NoteItem; afterId?: string | null }; // a whole note: undoes a delete, adds the interviewer's; never sent by clients
+
+export const NOTE_OP_MESSAGES = new Set(['add_note', 'edit_note', 'delete_note', 'move_note']);
+
+const optionalString = (value: unknown) => typeof value === 'string' ? value : undefined;
+
+// Turns an add_note / edit_note / delete_note / move_note message into an operation
+export function parseNoteOp(data: any): NoteOp {
+    const id = optionalString(data.id);
+    if (!id) throw new Error(`${data.type} needs a note id.`);
+    const afterId = data.afterId === null ? null : optionalString(data.afterId);
+    switch (data.type) {
+        case 'add_note': return { type: 'add', id, content: optionalString(data.content) ?? "", tags: normalizeTags(data.tags), afterId };
+        case 'edit_note': return {
+            type: 'edit', id, content: optionalString(data.content), tags: Array.isArray(data.tags) ? normalizeTags(data.tags) : undefined,
+            baseContent: optionalString(data.baseContent)
+        };
+        case 'delete_note': return { type: 'delete', id };
+        case 'move_note':
+            if (afterId === undefined) throw new Error("move_note needs afterId (null for the top).");
+            return { type: 'move', id, afterId };
+        default: throw new Error(`Unknown note operation ${data.type}.`);
+    }
+}
+
+// The note as it is now, if the operation edits its content from text it no longer has
+export const staleNoteEdit = (notes: NoteItem[], op: NoteOp): NoteItem | null =>
+    op.type === 'edit' && op.content !== undefined && op.baseContent !== undefined
+        ? notes.find(n => n.id === op.id && n.content !== op.baseContent) ?? null
+        : null;
+
+// Applies an operation to the working chapter's notes. Returns the change to send the notepads and the
+// operation that undoes it, or null when it changes nothing (the note is gone, the edit is no edit or stale...).
+export function applyNoteOp(notes: NoteItem[], op: NoteOp, chapterIndex: number): { notes: NoteItem[]; change: NoteChange; undo: NoteOp } | null {
+    const at = notes.findIndex(n => n.id === (op.type === 'put' ? op.note.id : op.id));
+    const before = at > 0 ? notes[at - 1].id : null;
+    const last = notes.length ? notes[notes.length - 1].id : null;
+    const now = Date.now();
+    const result = (change: NoteChange, undo: NoteOp) => ({ notes: applyNoteChange(notes, change), change, undo });
+
+    switch (op.type) {
+        case 'add': {
+            if (at >= 0) return null;
+            const note: NoteItem = { id: op.id, content: op.content, source: 'user', chapterIndex, createdAt: now, updatedAt: now, tags: op.tags };
+            return result({ type: 'put', note, afterId: op.afterId === undefined ? last : op.afterId }, { type: 'delete', id: op.id });
+        }
+        case 'put':
+            if (at >= 0 || op.note.chapterIndex !== chapterIndex) return null;
+            return result({ type: 'put', note: op.note, afterId: op.afterId === undefined ? last : op.afterId }, { type: 'delete', id: op.note.id });
+        case 'edit': {
+            if (at < 0 || staleNoteEdit(notes, op)) return null;
+            const old = notes[at];
+            const content = op.content ?? old.content;
+            const tags = op.tags ?? old.tags;
+            if (content === old.content && tags.join(",") === old.tags.join(",")) return null;
+            return result({ type: 'put', note: { ...old, content, tags, updatedAt: now }, afterId: before }, { type: 'edit', id: op.id, content: old.content, tags: old.tags });
+        }
+        case 'delete':
+            if (at < 0) return null;
+            return result({ type: 'delete', id: op.id }, { type: 'put', note: notes[at], afterId: before });
+        case 'move':
+            if (at < 0 || op.afterId === op.id || op.afterId === before) return null;
+            return result({ type: 'put', note: notes[at], afterId: op.afterId }, { type: 'move', id: op.id, afterId: before });
+    }
+}
+
+// ==========================================
+// Archive
+// ==========================================
+interface NoteRow {
+    id: string;
+    chapter_index: number;
+    position: number;
+    content: string;
+    source: NoteItem['source'];
+    tags_json: string;
+    message_id: string | null;
+    created_at: number;
+    updated_at: number;
+}
+
+const fromRow = (row: NoteRow): NoteItem => ({
+    id: row.id,
+    content: row.content,
+    source: row.source,
+    chapterIndex: row.chapter_index,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    tags: JSON.parse(row.tags_json),
+    ...(row.message_id ? { messageId: row.message_id } : {})
+});
+
+// Makes the archive's copy of a chapter's notes match the given ones, in one batch. Notes keep their
+// place on the notepad, so a chapter reopened for revision gets them back in the order they were left.
+export async function archiveChapterNotes(db: D1Database, bookId: string, chapterIndex: number, notes: NoteItem[]) {
+    await db.batch([
+        db.prepare("DELETE FROM notes WHERE book_id = ? AND chapter_index = ?").bind(bookId, chapterIndex),
+        ...notes.map((n, position) => ({ n, position })).filter(({ n }) => n.content.trim()).map(({ n, position }) => db.prepare(
+            "INSERT OR REPLACE INTO notes (id, book_id, chapter_index, position, content, source, tags_json, message_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)"
+        ).bind(n.id, bookId, chapterIndex, position, n.content, n.source, JSON.stringify(n.tags), n.messageId ?? null, n.createdAt, n.updatedAt))
+    ]);
+}
+
+// The book's archived notes in chapter and notepad order, optionally only one chapter's
+export async function loadArchivedNotes(db: D1Database, bookId: string, chapterIndex?: number): Promise<NoteItem[]> {
+    const { results } = chapterIndex === undefined
+        ? await db.prepare("SELECT * FROM notes WHERE book_id = ? ORDER BY chapter_index, position").bind(bookId).all<NoteRow>()
+        : await db.prepare("SELECT * FROM notes WHERE book_id = ? AND chapter_index = ? ORDER BY position").bind(bookId, chapterIndex).all<NoteRow>();
+    return results.map(fromRow);
+}
+
+// Archived notes of other chapters than `exceptChapter` (the working one, whose archived copy may be stale)
+// whose content or tags contain every word of the query. An empty query lists them all.
+export async function searchArchivedNotes(db: D1Database, bookId: string, query: string, exceptChapter: number): Promise<NoteItem[]> {
+    const words = query.toLowerCase().split(/\s+/).map(w => w.replace(/^#/, "")).filter(Boolean).slice(0, 10);
+    const escape = (word: string) => `%${word.replace(/[\\%_]/g, c => `\\${c}`)}%`;
+    const where = words.map(() => "(lower(content) LIKE ? ESCAPE '\\' OR tags_json LIKE ? ESCAPE '\\')").join(" AND ");
+    const { results } = await db.prepare(`SELECT * FROM notes WHERE book_id = ? AND chapter_index != ?${where ? ` AND ${where}` : ""} ORDER BY chapter_index, position LIMIT ${SEARCH_LIMIT}`)
+        .bind(bookId, exceptChapter, ...words.flatMap(word => [escape(word), escape(word)])).all<NoteRow>();
+    return results.map(fromRow);
+}
+
+// Notes from other chapters as prompt text, under a heading per chapter
+export const formatArchivedNotes = (notes: NoteItem[], titleOf: (chapterIndex: number) => string | undefined) => {
+    const chapters: string[] = [];
+    let used = 0;
+    for (const index of [...new Set(notes.map(n => n.chapterIndex))].sort((a, b) => b - a)) {
+        const lines = notes.filter(n => n.chapterIndex === index).map(n => `- ${n.content}${n.tags.length ? ` (${n.tags.map(t => `#${t}`).join(" ")})` : ""}`);
+        const block = `Chapter ${index}${titleOf(index) ? `: ${titleOf(index)}` : ""}\n${lines.join("\n")}`;
+        if (used + block.length > ARCHIVE_BUDGET) break;
+        chapters.unshift(block);
+        used += block.length;
+    }
+    return chapters.join("\n\n");
+};
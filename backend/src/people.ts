@@ -0,0 +1,156 @@
+import type { ToolDeclaration } from './llm';
+import { fitToBudget } from './retrieval';
+
+// Everyone who comes up in the story, kept per user in D1 (people) so the interviewer still knows who
+// "Aunt Leela" is chapters later. The interviewer adds to it with record_person; document digests add
+// the people they mention, and deleting the document takes away the people only it mentioned.
+
+export interface Person {
+    id: string;
+    name: string;
+    relationship: string | null; // who they are to the subject
+    aliases: string[]; // other names the subject uses for them ("Amma", "Leela-mausi")
+    firstBookId: string | null; // the book whose interview first mentioned them; null while only documents do
+    firstChapter: number | null; // null as well when that chapter was dropped from the outline
+    keyFacts: string[];
+    documents: string[]; // documents whose digests mention them
+}
+
+// Where a mention came from: an interview, or a document's digest
+export type PersonSource = { bookId: string; chapter: number } | { document: string };
+
+export const RECORD_PERSON_TOOL: ToolDeclaration = {
+    name: "record_person",
+    description: "Add someone in the subject's life to the people registry, or add to what is known about them.",
+    parameters: {
+        type: "OBJECT",
+        properties: {
+            name: { type: "STRING", description: "Their name as the subject usually says it." },
+            relationship: { type: "STRING", description: "Who they are to the subject (mother, mentor, first husband...)." },
+            aliases: { type: "ARRAY", items: { type: "STRING" }, description: "Other names or nicknames used for them." },
+            key_facts: { type: "ARRAY", items: { type: "STRING" }, description: "Short facts about them worth remembering." }
+        },
+        required: ["name"]
+    }
+};
+
+interface PersonRow {
+    id: string;
+    name: string;
+    relationship: string | null;
+    aliases_json: string;
+    first_book_id: string | null;
+    first_chapter: number | null;
+    key_facts_json: string;
+    documents_json: string;
+}
+
+const fromRow = (row: PersonRow): Person => ({
+    id: row.id,
+    name: row.name,
+    relationship: row.relationship,
+    aliases: JSON.parse(row.aliases_json),
+    firstBookId: row.first_book_id,
+    firstChapter: row.first_chapter,
+    keyFacts: JSON.parse(row.key_facts_json),
+    documents: JSON.parse(row.documents_json)
+});
+
+const strings = (value: unknown): string[] => Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && !!v.trim()).map(v => v.trim()) : [];
+
+// Adds the strings not already in the list, ignoring case
+const union = (list: string[], more: string[]) => {
+    const seen = new Set(list.map(s => s.toLowerCase()));
+    const out = [...list];
+    for (const s of more) {
+        if (seen.has(s.toLowerCase())) continue;
+        seen.add(s.toLowerCase());
+        out.push(s);
+    }
+    return out;
+};
+
+export async function loadPeople(db: D1Database, userId: string): Promise<Person[]> {
+    const { results } = await db.prepare("SELECT * FROM people WHERE user_id = ? ORDER BY name COLLATE NOCASE").bind(userId).all<PersonRow>();
+    return results.map(fromRow);
+}
+
+export interface PersonMention {
+    name: string;
+    relationship?: string | null;
+    aliases?: string[];
+    keyFacts?: string[];
+}
+
+// Records a mention. Someone already in the registry under that name or one of their aliases is updated
+// instead of added twice. The first interview to mention someone is kept as where they were first mentioned.
+export async function recordPerson(db: D1Database, userId: string, mention: PersonMention, source: PersonSource): Promise<Person | null> {
+    const name = mention.name.trim();
+    if (!name) return null;
+    const aliases = strings(mention.aliases);
+    const keyFacts = strings(mention.keyFacts);
+    const relationship = typeof mention.relationship === 'string' && mention.relationship.trim() || null;
+    const interview = 'bookId' in source ? source : null;
+    const documents = 'document' in source ? [source.document] : [];
+
+    const names = new Set([name, ...aliases].map(n => n.toLowerCase()));
+    const existing = (await loadPeople(db, userId)).find(p => [p.name, ...p.aliases].some(n => names.has(n.toLowerCase())));
+
+    if (existing) {
+        const updated: Person = {
+            ...existing,
+            relationship: relationship || existing.relationship,
+            aliases: union(existing.aliases, [name, ...aliases].filter(n => n.toLowerCase() !== existing.name.toLowerCase())),
+            firstBookId: existing.firstBookId ?? interview?.bookId ?? null,
+            firstChapter: existing.firstBookId ? existing.firstChapter : interview?.chapter ?? null,
+            keyFacts: union(existing.keyFacts, keyFacts),
+            documents: [...new Set([...existing.documents, ...documents])]
+        };
+        await db.prepare("UPDATE people SET relationship = ?, aliases_json = ?, first_book_id = ?, first_chapter = ?, key_facts_json = ?, documents_json = ? WHERE id = ?")
+            .bind(updated.relationship, JSON.stringify(updated.aliases), updated.firstBookId, updated.firstChapter, JSON.stringify(updated.keyFacts), JSON.stringify(updated.documents), updated.id).run();
+        return updated;
+    }
+
+    const person: Person = {
+        id: crypto.randomUUID(),
+        name,
+        relationship,
+        aliases: union([], aliases.filter(a => a.toLowerCase() !== name.toLowerCase())),
+        firstBookId: interview?.bookId ?? null,
+        firstChapter: interview?.chapter ?? null,
+        keyFacts,
+        documents
+    };
+    await db.prepare("INSERT INTO people (id, user_id, name, relationship, aliases_json, first_book_id, first_chapter, key_facts_json, documents_json, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)")
+        .bind(person.id, userId, person.name, person.relationship, JSON.stringify(person.aliases), person.firstBookId, person.firstChapter, JSON.stringify(person.keyFacts), JSON.stringify(person.documents), Date.now()).run();
+    return person;
+}
+
+// Detaches a document from the people its digest mentioned, before it is deleted or digested again.
+// People no interview has mentioned and no other document names leave the registry with it.
+export async function removeDocumentPeople(db: D1Database, userId: string, document: string) {
+    const mentioned = (await loadPeople(db, userId)).filter(p => p.documents.includes(document));
+    if (mentioned.length === 0) return;
+    await db.batch(mentioned.map(p => {
+        const documents = p.documents.filter(d => d !== document);
+        return documents.length || p.firstBookId
+            ? db.prepare("UPDATE people SET documents_json = ? WHERE id = ?").bind(JSON.stringify(documents), p.id)
+            : db.prepare("DELETE FROM people WHERE id = ?").bind(p.id);
+    }));
+}
+
+// Prompt budget for the registry, in characters
+const PEOPLE_BUDGET = 4000;
+
+const formatPerson = (p: Person) => {
+    const aka = p.aliases.length ? ` (also "${p.aliases.join('", "')}")` : "";
+    const facts = p.keyFacts.length ? ` ${p.keyFacts.join("; ")}` : "";
+    return `- ${p.name}${aka}: ${p.relationship || "relationship unknown"}.${facts}`;
+};
+
+// Registry as prompt text, one person per line. Over the budget, the people first mentioned in `chapter`
+// are kept first, then those closest to `query` (what the chapter is about).
+export const formatPeople = (people: Person[], chapter: { bookId: string; chapter: number }, query: string) =>
+    fitToBudget(people, PEOPLE_BUDGET, formatPerson, query, p => p.firstBookId === chapter.bookId && p.firstChapter === chapter.chapter)
+        .map(formatPerson)
+        .join("\n");
@@ -0,0 +1,236 @@
+// Lexical retrieval over the user's documents. Extracted text is split into passages of a few paragraphs,
+// and each passage's term counts are stored in D1 (document_chunks). Prompts get the passages that best
+// match what is being talked about (BM25), instead of every document in full.
+
+export interface RetrievalEnv {
+    DB: D1Database;
+    BUCKET: R2Bucket;
+}
+
+export interface DocumentPassage {
+    document: string; // filename in the user's archives
+    position: number; // order within the document
+    page: number | null;
+    section: string | null;
+    content: string;
+}
+
+// Extracted text the biographer reads lives under documents/<userId>/<filename>
+export const documentPrefix = (userId: string) => `documents/${userId}/`;
+
+const CHUNK_CHARS = 1200;
+// Prompt budget for retrieved passages, in characters
+export const PASSAGE_BUDGET = 12000;
+const MAX_QUERY_TERMS = 60; // D1 allows 100 bound parameters per query
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// ==========================================
+// Terms
+// ==========================================
+const STOPWORDS = new Set((
+    "a about above after again against all am an and any are as at be because been before being below between both but by " +
+    "can could did do does doing down during each few for from further had has have having he her here hers herself him " +
+    "himself his how if in into is it its itself just me more most my myself no nor not now of off on once only or other " +
+    "our ours ourselves out over own same she should so some such than that the their theirs them themselves then there " +
+    "these they this those through to too under until up very was we were what when where which while who whom why will " +
+    "with would you your yours yourself yourselves also got get like tell told really"
+).split(" "));
+
+// Folds plurals so "schools" finds "school"
+const stem = (term: string) => {
+    if (term.length > 4 && term.endsWith("ies")) return term.slice(0, -3) + "y";
+    if (term.length > 3 && term.endsWith("s") && !term.endsWith("ss")) return term.slice(0, -1);
+    return term;
+};
+
+export const tokenize = (text: string): string[] =>
+    (text.toLowerCase().normalize("NFKD").replace(/\p{M}/gu, "").match(/[\p{L}\p{N}]+/gu) || [])
+        .filter(term => term.length > 1 && !STOPWORDS.has(term))
+        .map(stem);
+
+// The items whose text fits the budget (in characters), in their own order. Those `first` picks are taken
+// before the rest, then those sharing the most terms with the query, so what gets left out is the least related.
+export function fitToBudget<T>(items: T[], budget: number, text: (item: T) => string, query: string, first: (item: T) => boolean): T[] {
+    const terms = new Set(tokenize(query));
+    const ranked = items
+        .map((item, i) => {
+            const rendered = text(item);
+            return { i, first: first(item) ? 1 : 0, shared: new Set(tokenize(rendered).filter(t => terms.has(t))).size, length: rendered.length + 1 };
+        })
+        .sort((a, b) => b.first - a.first || b.shared - a.shared || a.i - b.i);
+    const kept = new Set<number>();
+    let used = 0;
+    for (const { i, length } of ranked) {
+        if (used + length > budget) continue;
+        kept.add(i);
+        used += length;
+    }
+    return items.filter((_, i) => kept.has(i));
+}
+
+// ==========================================
+// Chunking
+// ==========================================
+const PAGE_MARKER = /^\[Page (\d+)\]$/;
+const SECTION_MARKER = /^\[Section: (.*)\]$/;
+
+// Paragraphs longer than a chunk are cut at sentence ends, or at spaces if they have none
+const splitLong = (paragraph: string): string[] => {
+    const pieces: string[] = [];
+    let rest = paragraph;
+    while (rest.length > CHUNK_CHARS) {
+        const window = rest.slice(0, CHUNK_CHARS);
+        const sentenceEnd = Math.max(window.lastIndexOf(". "), window.lastIndexOf("? "), window.lastIndexOf("! "));
+        const cut = sentenceEnd > CHUNK_CHARS / 2 ? sentenceEnd + 1 : window.lastIndexOf(" ") > 0 ? window.lastIndexOf(" ") : CHUNK_CHARS;
+        pieces.push(rest.slice(0, cut).trim());
+        rest = rest.slice(cut).trim();
+    }
+    if (rest) pieces.push(rest);
+    return pieces;
+};
+
+// Splits extracted text (see ./extract) into passages of whole paragraphs, each tagged with the page and
+// section it is on. Passages never span a page or section break, so they can be cited.
+export function chunkDocument(text: string): Omit<DocumentPassage, 'document'>[] {
+    const chunks: Omit<DocumentPassage, 'document'>[] = [];
+    let page: number | null = null;
+    let section: string | null = null;
+    let current: { page: number | null; section: string | null; paragraphs: string[]; size: number } | null = null;
+
+    const flush = () => {
+        if (current?.paragraphs.length) {
+            chunks.push({ position: chunks.length, page: current.page, section: current.section, content: current.paragraphs.join("\n\n") });
+        }
+        current = null;
+    };
+
+    for (const block of text.split(/\n\s*\n/)) {
+        const paragraph = block.trim();
+        if (!paragraph) continue;
+        const pageMatch = PAGE_MARKER.exec(paragraph);
+        if (pageMatch) { flush(); page = Number(pageMatch[1]); continue; }
+        const sectionMatch = SECTION_MARKER.exec(paragraph);
+        if (sectionMatch) { flush(); section = sectionMatch[1]; continue; }
+
+        for (const piece of splitLong(paragraph)) {
+            if (current && current.size + piece.length > CHUNK_CHARS) flush();
+            current ??= { page, section, paragraphs: [], size: 0 };
+            current.paragraphs.push(piece);
+            current.size += piece.length;
+        }
+    }
+    flush();
+    return chunks;
+}
+
+// ==========================================
+// Index
+// ==========================================
+const INSERT_COLUMNS = "(id, user_id, document, position, page, section, content, length, terms)";
+const ROWS_PER_INSERT = 11; // 9 columns each, under the 100 parameter limit
+
+// (Re)indexes one document's text. Runs as a single batch, so a replaced document is never half indexed.
+export async function indexDocument(db: D1Database, userId: string, document: string, text: string) {
+    const rows = chunkDocument(text).map(chunk => {
+        const terms = tokenize(chunk.content);
+        const counts: Record<string, number> = {};
+        for (const term of terms) counts[term] = (counts[term] || 0) + 1;
+        return [crypto.randomUUID(), userId, document, chunk.position, chunk.page, chunk.section, chunk.content, terms.length, JSON.stringify(counts)];
+    });
+
+    const statements = [db.prepare("DELETE FROM document_chunks WHERE user_id = ? AND document = ?").bind(userId, document)];
+    for (let i = 0; i < rows.length; i += ROWS_PER_INSERT) {
+        const group = rows.slice(i, i + ROWS_PER_INSERT);
+        const placeholders = group.map(() => "(?, ?, ?, ?, ?, ?, ?, ?, ?)").join(", ");
+        statements.push(db.prepare(`INSERT INTO document_chunks ${INSERT_COLUMNS} VALUES ${placeholders}`).bind(...group.flat()));
+    }
+    await db.batch(statements);
+}
+
+export const removeDocumentIndex = (db: D1Database, userId: string, document: string) =>
+    db.prepare("DELETE FROM document_chunks WHERE user_id = ? AND document = ?").bind(userId, document).run();
+
+// Brings the index in line with the archives: indexes documents stored before indexing existed
+// and drops passages of documents that are gone.
+export async function syncDocumentIndex(env: RetrievalEnv, userId: string) {
+    const prefix = documentPrefix(userId);
+    const stored = new Set<string>();
+    let cursor: string | undefined;
+    do {
+        const page = await env.BUCKET.list({ prefix, cursor });
+        for (const object of page.objects) stored.add(object.key.slice(prefix.length));
+        cursor = page.truncated ? page.cursor : undefined;
+    } while (cursor);
+
+    const { results } = await env.DB.prepare("SELECT DISTINCT document FROM document_chunks WHERE user_id = ?").bind(userId).all<{ document: string }>();
+    const indexed = new Set(results.map(r => r.document));
+
+    for (const document of indexed) {
+        if (!stored.has(document)) await removeDocumentIndex(env.DB, userId, document);
+    }
+    for (const document of stored) {
+        if (indexed.has(document)) continue;
+        const file = await env.BUCKET.get(prefix + document);
+        if (file) await indexDocument(env.DB, userId, document, await file.text());
+    }
+}
+
+// ==========================================
+// Search
+// ==========================================
+// The user's passages that best match the query, ranked with BM25 and cut to fit the budget.
+// Returned in reading order (by document, then position). Only reads D1; run syncDocumentIndex first
+// if documents may have been stored without being indexed. Documents in `skip` are left out.
+export async function searchDocuments(db: D1Database, userId: string, query: string, budget = PASSAGE_BUDGET, skip?: Set<string>): Promise<DocumentPassage[]> {
+    const terms = [...new Set(tokenize(query))].slice(0, MAX_QUERY_TERMS);
+    if (terms.length === 0) return [];
+
+    const stats = await db.prepare("SELECT COUNT(*) AS total, AVG(length) AS avgLength FROM document_chunks WHERE user_id = ?")
+        .bind(userId).first<{ total: number; avgLength: number | null }>();
+    if (!stats?.total) return [];
+
+    const { results: postings } = await db.prepare(
+        `SELECT c.id AS id, c.document AS document, c.length AS length, t.key AS term, t.value AS count
+         FROM document_chunks c, json_each(c.terms) t
+         WHERE c.user_id = ? AND t.key IN (${terms.map(() => "?").join(", ")})`
+    ).bind(userId, ...terms).all<{ id: string; document: string; length: number; term: string; count: number }>();
+
+    const documentFrequency = new Map<string, number>();
+    for (const p of postings) documentFrequency.set(p.term, (documentFrequency.get(p.term) || 0) + 1);
+
+    const avgLength = stats.avgLength || 1;
+    const scores = new Map<string, number>();
+    for (const p of postings) {
+        if (skip?.has(p.document)) continue;
+        const df = documentFrequency.get(p.term)!;
+        const idf = Math.log(1 + (stats.total - df + 0.5) / (df + 0.5));
+        const tf = (p.count * (BM25_K1 + 1)) / (p.count + BM25_K1 * (1 - BM25_B + BM25_B * p.length / avgLength));
+        scores.set(p.id, (scores.get(p.id) || 0) + idf * tf);
+    }
+
+    // Passages are at most CHUNK_CHARS long, so this many always covers the budget
+    const ranked = [...scores.entries()].sort((a, b) => b[1] - a[1]).slice(0, Math.ceil(budget / (CHUNK_CHARS / 2)));
+    if (ranked.length === 0) return [];
+
+    const { results: rows } = await db.prepare(
+        `SELECT id, document, position, page, section, content FROM document_chunks WHERE id IN (${ranked.map(() => "?").join(", ")})`
+    ).bind(...ranked.map(([id]) => id)).all<DocumentPassage & { id: string }>();
+    const byId = new Map(rows.map(row => [row.id, row]));
+
+    const chosen: DocumentPassage[] = [];
+    let used = 0;
+    for (const [id] of ranked) {
+        const row = byId.get(id);
+        if (!row || used + row.content.length > budget) continue;
+        const { id: _, ...passage } = row;
+        chosen.push(passage);
+        used += passage.content.length;
+    }
+    return chosen.sort((a, b) => a.document.localeCompare(b.document) || a.position - b.position);
+}
+
+export const formatPassages = (passages: DocumentPassage[]) => passages.map(p => {
+    const where = [p.page !== null && `page ${p.page}`, p.section && `section "${p.section}"`].filter(Boolean).join(", ");
+    return `--- From ${p.document}${where ? ` (${where})` : ""} ---\n${p.content}`;
+}).join("\n\n");
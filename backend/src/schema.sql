@@ -2,8 +2,10 @@ CREATE TABLE IF NOT EXISTS users (
     id TEXT PRIMARY KEY,
     name TEXT NOT NULL,
     dob TEXT NOT NULL,
-    created_at INTEGER NOT NULL
+    created_at INTEGER NOT NULL,
+    secret_hash TEXT -- SHA-256 of the device secret in the user's access token
 );
+-- Databases created before access tokens: ALTER TABLE users ADD COLUMN secret_hash TEXT;
 
 CREATE TABLE IF NOT EXISTS locations (
     id TEXT PRIMARY KEY,
@@ -12,8 +14,10 @@ CREATE TABLE IF NOT EXISTS locations (
     lng REAL NOT NULL,
     label TEXT NOT NULL,
     date_start TEXT,
+    date_end TEXT, -- NULL while the subject still lives there
     FOREIGN KEY(user_id) REFERENCES users(id)
 );
+-- Databases created before date_end existed: ALTER TABLE locations ADD COLUMN date_end TEXT;
 
 CREATE TABLE IF NOT EXISTS books (
     id TEXT PRIMARY KEY,
@@ -32,3 +36,93 @@ CREATE TABLE IF NOT EXISTS chapters (
     status TEXT DEFAULT 'draft',
     FOREIGN KEY(book_id) REFERENCES books(id)
 );
+
+CREATE TABLE IF NOT EXISTS chapter_versions (
+    id TEXT PRIMARY KEY,
+    book_id TEXT NOT NULL,
+    chapter_index INTEGER NOT NULL,
+    version INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    source TEXT NOT NULL, -- 'ai' | 'edit' | 'passage' | 'restore'
+    created_at INTEGER NOT NULL,
+    FOREIGN KEY(book_id) REFERENCES books(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chapter_versions_chapter ON chapter_versions(book_id, chapter_index, version);
+
+-- Passages of the user's documents, indexed for retrieval (see src/retrieval.ts)
+CREATE TABLE IF NOT EXISTS document_chunks (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    document TEXT NOT NULL, -- filename in the user's archives
+    position INTEGER NOT NULL, -- order within the document
+    page INTEGER,
+    section TEXT,
+    content TEXT NOT NULL,
+    length INTEGER NOT NULL, -- number of terms, for BM25 length normalization
+    terms TEXT NOT NULL, -- JSON object of term -> count in this passage
+    FOREIGN KEY(user_id) REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_document ON document_chunks(user_id, document, position);
+
+-- Model-written digest of each document (see src/digest.ts), replaced whenever its text is re-extracted
+CREATE TABLE IF NOT EXISTS document_digests (
+    user_id TEXT NOT NULL,
+    document TEXT NOT NULL, -- filename in the user's archives
+    digest_json TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    PRIMARY KEY (user_id, document),
+    FOREIGN KEY(user_id) REFERENCES users(id)
+);
+
+-- What is known about the subject's life (see src/facts.ts). Shared by all of the user's books.
+CREATE TABLE IF NOT EXISTS facts (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    kind TEXT NOT NULL, -- 'event' | 'place' | 'employer' | 'school'
+    name TEXT NOT NULL, -- what happened, or where
+    detail TEXT,
+    date_start TEXT,
+    date_end TEXT,
+    source TEXT NOT NULL, -- 'interview:<bookId>:<chapterIndex>' | 'document:<filename>'
+    created_at INTEGER NOT NULL,
+    FOREIGN KEY(user_id) REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_facts_user ON facts(user_id, kind);
+
+-- Everyone mentioned in the story (see src/people.ts). Shared by all of the user's books.
+CREATE TABLE IF NOT EXISTS people (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    relationship TEXT,
+    aliases_json TEXT NOT NULL DEFAULT '[]',
+    first_book_id TEXT, -- the interview they were first mentioned in; NULL while only documents mention them
+    first_chapter INTEGER,
+    key_facts_json TEXT NOT NULL DEFAULT '[]',
+    documents_json TEXT NOT NULL DEFAULT '[]', -- documents whose digests mention them
+    created_at INTEGER NOT NULL,
+    FOREIGN KEY(user_id) REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_people_user ON people(user_id);
+
+-- Every note the interviewer or the user took, per book (see src/notes.ts). The working chapter's notes
+-- live in the session and are copied here when it is finished, parked or revised.
+CREATE TABLE IF NOT EXISTS notes (
+    id TEXT PRIMARY KEY,
+    book_id TEXT NOT NULL,
+    chapter_index INTEGER NOT NULL,
+    position INTEGER NOT NULL, -- order within the chapter's notepad
+    content TEXT NOT NULL,
+    source TEXT NOT NULL, -- 'ai' | 'user'
+    tags_json TEXT NOT NULL DEFAULT '[]',
+    message_id TEXT, -- the chat message the note was taken from
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    FOREIGN KEY(book_id) REFERENCES books(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notes_book ON notes(book_id, chapter_index);
@@ -0,0 +1,972 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createSessionHarness, TEST_BOOK_ID, TEST_OUTLINE, TEST_USER_ID, type SessionHarness } from './harness/session';
+import type { FakeSocket } from './harness/memoryState';
+import { RecordingProvider, ReplayProvider, scriptedProvider } from './harness/recorder';
+import { MockProvider, type GenerateRequest, type StreamRequest } from '../src/llm';
+import { issueAccessToken } from '../src/auth';
+import { saveDigest } from '../src/digest';
+import { applyNoteChange, type NoteItem } from '../src/notes';
+import { interviewSource, recordFact } from '../src/facts';
+import { recordPerson } from '../src/people';
+
+// Each scenario replays test/fixtures/<scenario>.json. Re-record with:
+//   RECORD_FIXTURES=1 LLM_PROVIDER=gemini CF_ACCOUNT_ID=... CF_GATEWAY_ID=... GEMINI_API_KEY=... npm test
+const finish = (llm: RecordingProvider | ReplayProvider, scenario: string) => {
+    if (llm instanceof RecordingProvider) llm.save(scenario);
+    else expect(llm.remaining).toBe(0);
+};
+
+const THREE_CHAPTERS = {
+    ...TEST_OUTLINE,
+    chapters: [...TEST_OUTLINE.chapters, { index: 3, title: "Leaving Home", summary: "Moving to Mumbai." }]
+};
+
+// The notes as a notepad on this socket sees them: the last full list, with every change since applied
+const notesSeenBy = (ws: FakeSocket) => ws.sent.reduce<NoteItem[]>((notes, m) =>
+    m.type === 'notes_sync' ? m.content : m.type === 'note_change' ? applyNoteChange(notes, m.content) : notes, []);
+
+// Finalizes the current chapter on the first answer and moves on to the next one
+const completeChapter = async (h: SessionHarness, ws: FakeSocket) => {
+    await h.send(ws, { type: 'message', content: `I'm done with chapter ${h.session.currentChapterIndex}.` });
+    await h.send(ws, { type: 'next_chapter' });
+};
+
+describe('InterviewSession', () => {
+    it('greets once on init and never duplicates the greeting', async () => {
+        const llm = scriptedProvider('init_greeting');
+        const h = await createSessionHarness(llm);
+        const ws = h.connect();
+
+        await h.send(ws, { type: 'init' });
+        await h.send(ws, { type: 'init' });
+
+        expect(ws.last('outline').content.chapters).toHaveLength(2);
+        expect(ws.last('mode_sync').content).toBe('interview');
+        expect(ws.last('chapter_index_sync').content).toBe(1);
+        expect(ws.ofType('response')).toHaveLength(1);
+        expect(ws.ofType('response')[0].content).toContain('Chapter 1: Beginnings');
+        expect(ws.last('history').content).toHaveLength(1);
+        expect(h.session.history).toHaveLength(1);
+        finish(llm, 'init_greeting');
+    });
+
+    it('tells the biographer where the subject lived and when', async () => {
+        const llm = scriptedProvider('residence_timeline');
+        const h = await createSessionHarness(llm);
+        const ws = h.connect();
+        await h.send(ws, { type: 'init' });
+
+        const place = h.db.prepare("INSERT INTO locations (id, user_id, lat, lng, label, date_start, date_end) VALUES (?, 'user_test', 0, 0, ?, ?, ?)");
+        await place.bind('l2', 'Mumbai, India', '1998', null).run();
+        await place.bind('l1', 'Pune, India', '1980-04-02', '1998').run();
+
+        const context = await h.session.gatherFullContext();
+        expect(context).toContain('- 1980-04-02 to 1998: Pune, India\n- 1998 to present: Mumbai, India');
+        finish(llm, 'residence_timeline');
+    });
+
+    it('gives prompts only the document passages relevant to the chapter and the latest answer', async () => {
+        const h = await createSessionHarness(new MockProvider());
+        const filler = Array.from({ length: 3 }, (_, i) => `Quarterly report ${i}: revenue, margins and headcount were reviewed with the board.`.repeat(14)).join("\n\n");
+        await h.bucket.put(`documents/${TEST_USER_ID}/journal.txt`, [
+            "[Page 1]",
+            "My childhood in Pune was loud and happy. Our house stood behind the temple near Shaniwar Wada.",
+            filler,
+            "[Page 4]",
+            "In 2009 I ran the Berlin marathon in the rain and finished in four hours."
+        ].join("\n\n"));
+        await h.bucket.put(`documents/${TEST_USER_ID}/resume.txt`, "Senior engineer at Infosys, 2004 to 2012. Led the payments team.");
+        await h.send(h.connect(), { type: 'init' });
+
+        // Documents stored before indexing are indexed on first use
+        const context = await h.session.gatherFullContext();
+        expect(context).toContain('--- From journal.txt (page 1) ---\nMy childhood in Pune');
+        expect(context).not.toContain('Berlin marathon');
+        expect(context).not.toContain('Quarterly report');
+        expect(context).not.toContain('Infosys');
+
+        h.session.history.push({ role: 'user', content: 'I took up running marathons in my twenties.' });
+        expect(await h.session.gatherFullContext()).toContain('--- From journal.txt (page 4) ---\nIn 2009 I ran the Berlin marathon');
+
+        // Removed documents drop out of the index once the worker invalidates the cached context
+        await h.bucket.delete(`documents/${TEST_USER_ID}/journal.txt`);
+        await h.session.fetch(new Request('https://session/invalidate-context', { method: 'POST' }));
+        expect(await h.session.gatherFullContext()).not.toContain('journal.txt');
+    });
+
+    it('reads document digests and only falls back to raw passages where needed', async () => {
+        const h = await createSessionHarness(new MockProvider());
+        await h.bucket.put(`documents/${TEST_USER_ID}/journal.txt`, "My childhood in Pune was loud and happy.");
+        await h.bucket.put(`documents/${TEST_USER_ID}/letters.txt`, "Dear Asha, do you remember your childhood kite in Pune?");
+        await saveDigest(h.db as unknown as D1Database, TEST_USER_ID, 'letters.txt', {
+            summary: "Letters from her aunt Meera.",
+            periodStart: "1985",
+            periodEnd: "1990",
+            people: [{ name: "Meera", relation: "aunt" }],
+            places: ["Pune"],
+            events: [{ date: "1986", description: "The kite festival." }]
+        });
+        await h.send(h.connect(), { type: 'init' });
+
+        const interview = await h.session.gatherFullContext();
+        expect(interview).toContain('--- Digest of letters.txt (1985 to 1990) ---\nLetters from her aunt Meera.\nPeople: Meera (aunt)\nPlaces: Pune\nEvents:\n- 1986: The kite festival.');
+        expect(interview).toContain('--- From journal.txt ---\nMy childhood in Pune');
+        expect(interview).not.toContain('Dear Asha');
+
+        // The writer needs the documents' own words
+        const writing = await h.session.gatherFullContext(h.session.retrievalQuery(), 'all');
+        expect(writing).toContain('Letters from her aunt Meera.');
+        expect(writing).toContain('--- From letters.txt ---\nDear Asha');
+    });
+
+    it('serves the subject context from storage until the worker invalidates it', async () => {
+        const h = await createSessionHarness(new MockProvider());
+        await h.bucket.put(`documents/${TEST_USER_ID}/journal.txt`, "My childhood in Pune was loud and happy.\n\nAt school I was terrible at exams.");
+        await h.send(h.connect(), { type: 'init' });
+        expect(await h.session.gatherFullContext()).toContain('My childhood in Pune');
+
+        const list = vi.spyOn(h.bucket, 'list');
+        const get = vi.spyOn(h.bucket, 'get');
+        const queries = vi.spyOn(h.db, 'prepare');
+        await h.db.prepare("INSERT INTO locations (id, user_id, lat, lng, label, date_start) VALUES ('l1', ?, 0, 0, 'Pune, India', '1980')").bind(TEST_USER_ID).run();
+        queries.mockClear();
+
+        // New questions still search the index, but the archives and profile are not read again
+        h.session.history.push({ role: 'user', content: 'Exams at school terrified me.' });
+        const context = await h.session.gatherFullContext();
+        expect(context).toContain('terrible at exams');
+        expect(context).not.toContain('Pune, India');
+        expect(list).not.toHaveBeenCalled();
+        expect(get).not.toHaveBeenCalled();
+        expect(queries.mock.calls.some(([sql]) => sql.includes('FROM users') || sql.includes('FROM locations'))).toBe(false);
+
+        // Asking the same question again is served entirely from storage
+        queries.mockClear();
+        await h.session.gatherFullContext();
+        expect(queries).not.toHaveBeenCalled();
+
+        const res = await h.session.fetch(new Request('https://session/invalidate-context', { method: 'POST' }));
+        expect(res.status).toBe(204);
+        expect(await h.state.storage.get('subjectContext')).toBeUndefined();
+        expect(await h.session.gatherFullContext()).toContain('- 1980 to present: Pune, India');
+        expect(list).toHaveBeenCalledTimes(1);
+    });
+
+    it('runs an interview through to a written chapter and moves on', async () => {
+        const llm = scriptedProvider('interview_to_chapter');
+        const h = await createSessionHarness(llm);
+        const ws = h.connect();
+        await h.send(ws, { type: 'init' });
+
+        await h.send(ws, { type: 'message', content: 'I was born in Pune in 1980.' });
+        expect(h.session.mode).toBe('interview');
+        expect(h.session.notes.length).toBeGreaterThan(0);
+        expect(notesSeenBy(ws)).toEqual(h.session.notes);
+
+        await h.send(ws, { type: 'message', content: 'My grandmother raised me near the river.' });
+        await h.send(ws, { type: 'message', content: "That's all for this chapter." });
+
+        expect(h.session.mode).toBe('writing');
+        expect(ws.ofType('mode_sync').map(m => m.content)).toContain('writing');
+        expect(h.session.currentDraft).toMatch(/^# Chapter 1/);
+        expect(ws.ofType('draft_complete').length).toBeGreaterThan(0);
+        expect(await h.state.storage.get('currentDraft')).toBe(h.session.currentDraft);
+
+        const draft = h.session.currentDraft;
+        await h.send(ws, { type: 'next_chapter' });
+
+        expect(h.session.currentChapterIndex).toBe(2);
+        expect(h.session.mode).toBe('interview');
+        expect(h.session.notes).toEqual([]);
+        expect(h.session.fullManuscript).toBe(draft);
+        expect(ws.last('chapter_index_sync').content).toBe(2);
+        expect(ws.last('response').content).toContain('Chapter 2: School Days');
+
+        const rows = h.db.query("SELECT chapter_index, title, content, status FROM chapters WHERE book_id = ?", TEST_BOOK_ID);
+        expect(rows).toEqual([{ chapter_index: 1, title: 'Beginnings', content: draft, status: 'completed' }]);
+        finish(llm, 'interview_to_chapter');
+    });
+
+    it('finishes a chapter once however often next_chapter arrives', async () => {
+        const h = await createSessionHarness(new MockProvider(), THREE_CHAPTERS);
+        const ws = h.connect();
+        const other = h.connect();
+        await h.send(ws, { type: 'init' });
+        await h.send(ws, { type: 'message', content: "I'm done with chapter 1." });
+
+        // A double click and a second tab, at the same time and after
+        await Promise.all([h.send(ws, { type: 'next_chapter' }), h.send(ws, { type: 'next_chapter' }), h.send(other, { type: 'next_chapter' })]);
+        await h.send(other, { type: 'next_chapter' });
+        expect(h.db.query("SELECT chapter_index FROM chapters WHERE status = 'completed'")).toEqual([{ chapter_index: 1 }]);
+        expect(h.session.currentChapterIndex).toBe(2);
+        expect(h.session.mode).toBe('interview');
+    });
+
+    it('keeps facts from the interview across chapters and gives them to the writer as ground truth', async () => {
+        const prompts: string[] = [];
+        class CapturingProvider extends MockProvider {
+            async *stream(request: StreamRequest) {
+                prompts.push(request.prompt);
+                yield* super.stream(request);
+            }
+        }
+        const h = await createSessionHarness(new CapturingProvider());
+        const ws = h.connect();
+        await h.send(ws, { type: 'init' });
+
+        await h.send(ws, { type: 'message', content: 'I was born in Pune in 1980.' });
+        expect(h.db.query("SELECT kind, name, date_start, source FROM facts")).toEqual([
+            { kind: 'event', name: 'I was born in Pune in 1980.', date_start: '1980', source: `interview:${TEST_BOOK_ID}:1` }
+        ]);
+
+        await h.send(ws, { type: 'message', content: "That's all for this chapter." });
+        expect(prompts[0]).toContain('Facts (ground truth');
+        expect(prompts[0]).toContain('Events:\n- 1980: I was born in Pune in 1980. [told in chapter 1]');
+
+        await h.send(ws, { type: 'next_chapter' });
+        expect(h.session.notes).toEqual([]);
+        expect(h.db.query("SELECT COUNT(*) AS n FROM facts")).toEqual([{ n: 1 }]);
+    });
+
+    it('keeps the facts in prompts to a budget, the chapter\'s own and the most related first', async () => {
+        const systems: string[] = [];
+        class CapturingProvider extends MockProvider {
+            async generate(request: GenerateRequest) {
+                if (request.system) systems.push(request.system);
+                return super.generate(request);
+            }
+        }
+        const h = await createSessionHarness(new CapturingProvider());
+        const ws = h.connect();
+        await h.send(ws, { type: 'init' });
+        await completeChapter(h, ws);
+
+        const told = (name: string, chapter: number) => recordFact(h.env.DB, TEST_USER_ID, { kind: 'event', name, detail: null, dateStart: null, dateEnd: null, source: interviewSource(TEST_BOOK_ID, chapter) });
+        for (let week = 1; week <= 300; week++) await told(`Went to the vegetable market with Amma, week ${week}`, 1);
+        await told('Mrs. Kulkarni was the strictest of our teachers', 1);
+        await told('Won the inter-school debate prize', 2);
+
+        systems.length = 0;
+        await h.send(ws, { type: 'message', content: 'We had exams every term.' });
+        const facts = systems[0].slice(systems[0].indexOf('=== KNOWN FACTS ==='), systems[0].indexOf('=== PEOPLE ==='));
+        expect(facts).toContain('Won the inter-school debate prize [told in chapter 2]');
+        expect(facts).toContain('Mrs. Kulkarni was the strictest of our teachers [told in chapter 1]');
+        expect(facts).toContain('week 1 [told in chapter 1]');
+        expect(facts).not.toContain('week 300 [');
+        expect(facts.length).toBeLessThan(6500);
+    });
+
+    it('keeps a registry of people across chapters and merges mentions by alias', async () => {
+        const systems: string[] = [];
+        const drafts: string[] = [];
+        class PeopleProvider extends MockProvider {
+            async generate(request: GenerateRequest) {
+                if (request.system) systems.push(request.system);
+                const last = request.messages[request.messages.length - 1];
+                if (last?.role === 'user' && last.content?.includes('Leela')) {
+                    return { functionCalls: [{ name: 'record_person', args: { name: 'Leela', relationship: 'aunt', key_facts: ['Taught me to swim'] } }] };
+                }
+                if (last?.role === 'user' && last.content?.includes('Mausi')) {
+                    return { functionCalls: [{ name: 'record_person', args: { name: 'Mausi', aliases: ['Leela'], key_facts: ['Lived in Nashik'] } }] };
+                }
+                return super.generate(request);
+            }
+            async *stream(request: StreamRequest) {
+                drafts.push(request.prompt);
+                yield* super.stream(request);
+            }
+        }
+        const h = await createSessionHarness(new PeopleProvider());
+        const ws = h.connect();
+        await h.send(ws, { type: 'init' });
+        expect(ws.last('people_sync').content).toEqual([]);
+
+        await h.send(ws, { type: 'message', content: 'Aunt Leela taught me to swim.' });
+        expect(ws.last('people_sync').content).toEqual([
+            expect.objectContaining({ name: 'Leela', relationship: 'aunt', aliases: [], firstBookId: TEST_BOOK_ID, firstChapter: 1, keyFacts: ['Taught me to swim'] })
+        ]);
+
+        await completeChapter(h, ws);
+        expect(drafts[0]).toContain('People (');
+        expect(drafts[0]).toContain('- Leela: aunt. Taught me to swim');
+
+        systems.length = 0;
+        await h.send(ws, { type: 'message', content: 'Mausi lived in Nashik.' });
+        expect(systems[0]).toContain('=== PEOPLE ===\n            - Leela: aunt. Taught me to swim');
+        expect(h.db.query("SELECT name, aliases_json, first_chapter, key_facts_json FROM people")).toEqual([
+            { name: 'Leela', aliases_json: '["Mausi"]', first_chapter: 1, key_facts_json: '["Taught me to swim","Lived in Nashik"]' }
+        ]);
+    });
+
+    it('keeps the people in prompts to a budget, the chapter\'s own and the most related first', async () => {
+        const systems: string[] = [];
+        class CapturingProvider extends MockProvider {
+            async generate(request: GenerateRequest) {
+                if (request.system) systems.push(request.system);
+                return super.generate(request);
+            }
+        }
+        const h = await createSessionHarness(new CapturingProvider());
+        const ws = h.connect();
+        await h.send(ws, { type: 'init' });
+
+        for (let n = 1; n <= 300; n++) await recordPerson(h.env.DB, TEST_USER_ID, { name: `Batchmate ${n}`, relationship: 'college batchmate' }, { document: 'yearbook.pdf' });
+        await recordPerson(h.env.DB, TEST_USER_ID, { name: 'Mr. Deshpande', relationship: 'neighbour in Pune' }, { document: 'letters.txt' });
+        await recordPerson(h.env.DB, TEST_USER_ID, { name: 'Leela', relationship: 'aunt' }, { bookId: TEST_BOOK_ID, chapter: 1 });
+
+        systems.length = 0;
+        await h.send(ws, { type: 'message', content: 'We lived near the river.' });
+        const people = systems[0].slice(systems[0].indexOf('=== PEOPLE ==='), systems[0].indexOf('=== NOTES FROM OTHER CHAPTERS'));
+        expect(people).toContain('- Leela: aunt.');
+        expect(people).toContain('- Mr. Deshpande: neighbour in Pune.');
+        expect(people).toContain('- Batchmate 1: college batchmate.');
+        expect(people).not.toContain('- Batchmate 300:');
+        expect(people.length).toBeLessThan(4500);
+    });
+
+    it('records where each note came from and keeps that metadata through notepad edits', async () => {
+        const h = await createSessionHarness(new MockProvider());
+        const ws = h.connect();
+        await h.send(ws, { type: 'init' });
+        await h.send(ws, { type: 'message', id: 'msg-1', content: 'We lived above a bakery.' });
+
+        const [aiNote] = h.session.notes;
+        expect(aiNote).toEqual({
+            id: expect.any(String), content: expect.stringContaining('bakery'), source: 'ai', chapterIndex: 1,
+            createdAt: expect.any(Number), updatedAt: aiNote.createdAt, tags: [], messageId: 'msg-1'
+        });
+
+        // The client can edit content and tags, but not claim the interviewer's note as its own
+        await h.send(ws, { type: 'edit_note', id: aiNote.id, source: 'user', chapterIndex: 2, tags: ['#Home', 'home', ' family '] });
+        await h.send(ws, { type: 'add_note', id: 'mine', content: 'Ask about the baker.', source: 'ai', tags: ['people'] });
+        expect(h.session.notes).toEqual([
+            { ...aiNote, tags: ['home', 'family'], updatedAt: expect.any(Number) },
+            { id: 'mine', content: 'Ask about the baker.', source: 'user', chapterIndex: 1, createdAt: expect.any(Number), updatedAt: expect.any(Number), tags: ['people'] }
+        ]);
+        expect(notesSeenBy(ws)).toEqual(h.session.notes);
+
+        // Notes stored before they had metadata are filled in on load
+        await h.state.storage.put('notes', [{ id: 'old', content: 'From before.' }]);
+        await h.restart();
+        const ws2 = h.connect();
+        await h.send(ws2, { type: 'init' });
+        expect(h.session.notes).toEqual([{ id: 'old', content: 'From before.', source: 'ai', chapterIndex: 1, createdAt: 0, updatedAt: 0, tags: [] }]);
+        expect(ws2.last('history').content.find((m: any) => m.role === 'user').id).toBe('msg-1');
+    });
+
+    it('archives each chapter\'s notes for search and as background for the chapters after it', async () => {
+        const systems: string[] = [];
+        const drafts: string[] = [];
+        class CapturingProvider extends MockProvider {
+            async generate(request: GenerateRequest) {
+                if (request.system) systems.push(request.system);
+                return super.generate(request);
+            }
+            async *stream(request: StreamRequest) {
+                drafts.push(request.prompt);
+                yield* super.stream(request);
+            }
+        }
+        const h = await createSessionHarness(new CapturingProvider());
+        const ws = h.connect();
+        await h.send(ws, { type: 'init' });
+        await h.send(ws, { type: 'message', content: 'We lived above a bakery.' });
+        const chapterOne = h.session.notes;
+        await h.send(ws, { type: 'edit_note', id: chapterOne[0].id, tags: ['home'] });
+        await completeChapter(h, ws);
+
+        // Only the working chapter's notes stay in the notepad
+        expect(h.session.notes).toEqual([]);
+        await h.send(ws, { type: 'search_notes', query: '#home BAKERY' });
+        expect(ws.last('note_search_results').content).toEqual([expect.objectContaining({ id: chapterOne[0].id, chapterIndex: 1, tags: ['home'] })]);
+        await h.send(ws, { type: 'search_notes', query: 'tailor' });
+        expect(ws.last('note_search_results').content).toEqual([]);
+
+        systems.length = 0;
+        await h.send(ws, { type: 'message', content: 'School was a long walk away.' });
+        expect(systems[0]).toContain('=== NOTES FROM OTHER CHAPTERS');
+        expect(systems[0]).toContain(`Chapter 1: Beginnings\n- ${chapterOne[0].content} (#home)`);
+        await h.send(ws, { type: 'message', content: "That's all for this chapter." });
+        expect(drafts[drafts.length - 1]).toContain(`Notes from other chapters`);
+        expect(drafts[drafts.length - 1]).toContain(chapterOne[0].content);
+
+        // Reopening a chapter brings its notes back to work on
+        await h.send(ws, { type: 'next_chapter' });
+        await h.send(ws, { type: 'reopen_chapter', chapterIndex: 1 });
+        expect(h.session.notes).toEqual([{ ...chapterOne[0], tags: ['home'], updatedAt: expect.any(Number) }]);
+    });
+
+    it('deletes, reorders and undoes note changes one operation at a time', async () => {
+        const h = await createSessionHarness(new MockProvider());
+        const ws = h.connect();
+        await h.send(ws, { type: 'init' });
+        expect(ws.last('notes_undo_sync').content).toBe(false);
+        const contents = () => h.session.notes.map(n => n.content);
+
+        await h.send(ws, { type: 'add_note', id: 'a', content: 'A' });
+        await h.send(ws, { type: 'add_note', id: 'b', content: 'B' });
+        await h.send(ws, { type: 'add_note', id: 'c', content: 'C', afterId: null });
+        expect(contents()).toEqual(['C', 'A', 'B']);
+        expect(ws.last('notes_undo_sync').content).toBe(true);
+
+        await h.send(ws, { type: 'move_note', id: 'c', afterId: 'b' });
+        await h.send(ws, { type: 'edit_note', id: 'a', content: 'A, edited' });
+        await h.send(ws, { type: 'delete_note', id: 'b' });
+        expect(contents()).toEqual(['A, edited', 'C']);
+
+        // Clearing every note works too
+        await h.send(ws, { type: 'delete_note', id: 'a' });
+        await h.send(ws, { type: 'delete_note', id: 'c' });
+        expect(h.session.notes).toEqual([]);
+        expect(notesSeenBy(ws)).toEqual([]);
+
+        // Undo walks back through each operation, restoring deleted notes where they were
+        await h.send(ws, { type: 'undo_note' });
+        await h.send(ws, { type: 'undo_note' });
+        expect(contents()).toEqual(['A, edited', 'C']);
+        await h.send(ws, { type: 'undo_note' });
+        expect(contents()).toEqual(['A, edited', 'B', 'C']);
+        await h.send(ws, { type: 'undo_note' });
+        await h.send(ws, { type: 'undo_note' });
+        expect(contents()).toEqual(['C', 'A', 'B']);
+
+        // Undo survives a restart; edits that change nothing aren't recorded
+        await h.send(ws, { type: 'edit_note', id: 'a', content: 'A' });
+        await h.restart();
+        const ws2 = h.connect();
+        await h.send(ws2, { type: 'init' });
+        for (let i = 0; i < 3; i++) await h.send(ws2, { type: 'undo_note' });
+        expect(h.session.notes).toEqual([]);
+        expect(ws2.last('notes_undo_sync').content).toBe(false);
+    });
+
+    it('keeps the notepad order of a chapter\'s notes through the archive', async () => {
+        const h = await createSessionHarness(new MockProvider());
+        const ws = h.connect();
+        await h.send(ws, { type: 'init' });
+        // Taken a minute apart, so the order they were taken in isn't the order they end up in
+        const now = vi.spyOn(Date, 'now');
+        for (const [i, id] of ['a', 'b', 'c'].entries()) {
+            now.mockReturnValue(Date.UTC(2024, 0, 1, 12, i));
+            await h.send(ws, { type: 'add_note', id, content: id.toUpperCase() });
+        }
+        now.mockRestore();
+        await h.send(ws, { type: 'move_note', id: 'c', afterId: null });
+        await h.send(ws, { type: 'move_note', id: 'a', afterId: 'b' });
+        await completeChapter(h, ws);
+
+        await h.send(ws, { type: 'reopen_chapter', chapterIndex: 1 });
+        expect(h.session.notes.map(n => n.id).filter(id => id.length === 1)).toEqual(['c', 'b', 'a']);
+    });
+
+    it('merges note changes from other tabs and the interviewer and sends each to every socket', async () => {
+        let h: SessionHarness;
+        let other: FakeSocket;
+        // While the interviewer thinks, the user keeps editing in another tab
+        class NoteTakingProvider extends MockProvider {
+            async generate(request: GenerateRequest) {
+                const last = request.messages[request.messages.length - 1];
+                if (last?.role === 'user' && last.content?.includes('bakery')) {
+                    await h.send(other, { type: 'edit_note', id: 'mine', content: 'Ask about the baker, and his son.' });
+                    await h.send(other, { type: 'add_note', id: 'theirs', content: 'Find the old photos.', afterId: null });
+                    return { functionCalls: [{ name: 'create_note', args: { content: 'Lived above a bakery.', tags: ['home'] } }] };
+                }
+                return super.generate(request);
+            }
+        }
+        h = await createSessionHarness(new NoteTakingProvider());
+        const ws = h.connect();
+        other = h.connect();
+        await h.send(ws, { type: 'init' });
+        await h.send(other, { type: 'init' });
+
+        await h.send(ws, { type: 'add_note', id: 'mine', content: 'Ask about the baker.' });
+        // Content and tags are edited separately, so one tab's tags don't undo the other's words
+        await h.send(ws, { type: 'edit_note', id: 'mine', tags: ['people'] });
+        await h.send(ws, { type: 'message', content: 'We lived above a bakery.' });
+
+        expect(h.session.notes.map(n => [n.content, n.source, n.tags])).toEqual([
+            ['Find the old photos.', 'user', []],
+            ['Ask about the baker, and his son.', 'user', ['people']],
+            ['Lived above a bakery.', 'ai', ['home']]
+        ]);
+        expect(notesSeenBy(ws)).toEqual(h.session.notes);
+        expect(notesSeenBy(other)).toEqual(h.session.notes);
+        // Only the full list on init; everything after went out as single changes
+        expect(ws.ofType('notes_sync')).toHaveLength(1);
+
+        // Two tabs editing the same note from the same text: the first edit wins, the second is refused
+        // and told what the note says now, while tags from either tab still go through
+        await h.send(ws, { type: 'edit_note', id: 'mine', content: 'Ask about the baker.', baseContent: 'Ask about the baker, and his son.' });
+        await h.send(other, { type: 'edit_note', id: 'mine', tags: ['people', 'bakery'] });
+        await h.send(other, { type: 'edit_note', id: 'mine', content: 'Ask about the baker and his wife.', baseContent: 'Ask about the baker, and his son.' });
+        const mine = h.session.notes.find(n => n.id === 'mine');
+        expect(mine).toEqual(expect.objectContaining({ content: 'Ask about the baker.', tags: ['people', 'bakery'] }));
+        expect(other.last('note_conflict').content).toEqual({ note: mine, reason: expect.any(String) });
+        expect(ws.ofType('note_conflict')).toEqual([]);
+        expect(notesSeenBy(other)).toEqual(h.session.notes);
+
+        // The interviewer's notes aren't the user's to undo, but changes from any of their tabs are
+        const aiNote = h.session.notes[2];
+        for (let i = 0; i < 3; i++) await h.send(ws, { type: 'undo_note' });
+        expect(h.session.notes.map(n => n.id)).toEqual(['mine', aiNote.id]);
+        expect(notesSeenBy(other)).toEqual(h.session.notes);
+    });
+
+    it('refuses to append a message identical to the last one', async () => {
+        const llm = scriptedProvider('duplicate_message');
+        const h = await createSessionHarness(llm);
+        const ws = h.connect();
+        await h.send(ws, { type: 'init' });
+        await h.send(ws, { type: 'message', content: 'We lived above a bakery.' });
+
+        const length = h.session.history.length;
+        const lastReply = h.session.history[length - 1];
+        expect(lastReply.role).toBe('assistant');
+
+        expect(await h.session.addMessageSafe('assistant', lastReply.content as string)).toBeNull();
+        expect(h.session.history).toHaveLength(length);
+        expect(ws.last('debug_log').content).toContain('Prevented duplicate');
+
+        expect(await h.session.addMessageSafe('user', 'And a tailor next door.')).toEqual(expect.any(String));
+        expect(await h.session.addMessageSafe('user', 'And a tailor next door.')).toBeNull();
+        expect(await h.state.storage.get('history')).toHaveLength(length + 1);
+        finish(llm, 'duplicate_message');
+    });
+
+    it('retries a chapter from scratch and cancels back to interview', async () => {
+        const llm = scriptedProvider('retry_and_cancel');
+        const h = await createSessionHarness(llm);
+        const ws = h.connect();
+        await h.send(ws, { type: 'init' });
+        await h.send(ws, { type: 'message', content: "I'm done, next chapter please." });
+        expect(h.session.mode).toBe('writing');
+
+        ws.clear();
+        await h.send(ws, { type: 'retry_chapter' });
+        expect(ws.ofType('draft_chunk')[0]).toEqual({ type: 'draft_chunk', content: '', reset: true });
+        expect(h.session.currentDraft).toMatch(/^# Chapter 1/);
+
+        await h.send(ws, { type: 'cancel_generation' });
+        expect(h.session.mode).toBe('interview');
+        expect(ws.last('mode_sync').content).toBe('interview');
+        finish(llm, 'retry_and_cancel');
+    });
+
+    it('expands the outline and greets the new chapter', async () => {
+        const llm = scriptedProvider('expand_outline');
+        const h = await createSessionHarness(llm);
+        const ws = h.connect();
+        await h.send(ws, { type: 'init' });
+
+        await h.send(ws, { type: 'expand_outline', instruction: 'Add chapters about my college years' });
+
+        const chapters = ws.last('outline').content.chapters;
+        expect(chapters.length).toBeGreaterThan(2);
+        expect(chapters.map((c: any) => c.index)).toEqual(chapters.map((_: unknown, i: number) => i + 1));
+        expect(h.session.notes).toEqual([]);
+        expect(ws.last('notes_sync').content).toEqual([]);
+        expect(ws.ofType('error')).toEqual([]);
+        expect(ws.last('history').content.at(-1).content).toContain('Ready to get started?');
+
+        const stored = h.db.query("SELECT outline_json FROM books WHERE id = ?", TEST_BOOK_ID)[0];
+        expect(JSON.parse(stored.outline_json as string).chapters).toEqual(chapters);
+        finish(llm, 'expand_outline');
+    });
+
+    it('restores its state after the object is evicted', async () => {
+        const llm = scriptedProvider('restore_after_eviction');
+        const h = await createSessionHarness(llm);
+        const ws = h.connect();
+        await h.send(ws, { type: 'init' });
+        await h.send(ws, { type: 'message', content: 'The monsoon of 1987 flooded our street.' });
+
+        const notes = h.session.notes;
+        const session = await h.restart();
+        const ws2 = h.connect();
+        await h.send(ws2, { type: 'init' });
+
+        expect(session.notes).toEqual(notes);
+        expect(ws2.last('history').content.length).toBeGreaterThan(1);
+        expect(ws2.ofType('response')).toHaveLength(0);
+        finish(llm, 'restore_after_eviction');
+    });
+
+    it('rewrites a completed chapter with instructions and splices it back in place', async () => {
+        const llm = scriptedProvider('rewrite_chapter');
+        const h = await createSessionHarness(llm, THREE_CHAPTERS);
+        const ws = h.connect();
+        await h.send(ws, { type: 'init' });
+        await completeChapter(h, ws);
+        await completeChapter(h, ws);
+        const [first, second] = h.db.query("SELECT content FROM chapters ORDER BY chapter_index").map(r => r.content as string);
+
+        await h.send(ws, { type: 'message', content: 'Chapter three starts in Mumbai.' });
+        const inProgress = h.session.history.length;
+
+        await h.send(ws, { type: 'rewrite_chapter', chapterIndex: 1, instruction: 'It was 1994, not 1993' });
+        expect(h.session.revision?.chapterIndex).toBe(1);
+        expect(h.session.currentChapterIndex).toBe(1);
+        expect(h.session.currentDraft).toContain('(Revised: It was 1994, not 1993)');
+        expect(ws.last('revision_sync').content).toEqual({ chapterIndex: 1, instruction: 'It was 1994, not 1993' });
+        expect(ws.last('draft_chunk').content).toBe(`${h.session.currentDraft}\n\n${second}`);
+
+        const revised = h.session.currentDraft;
+        await h.send(ws, { type: 'finish_revision' });
+
+        expect(h.session.revision).toBeNull();
+        expect(h.session.currentChapterIndex).toBe(3);
+        expect(h.session.history).toHaveLength(inProgress);
+        expect(h.session.fullManuscript).toBe(`${revised}\n\n${second}`);
+        expect(await h.state.storage.get('fullManuscript')).toBe(h.session.fullManuscript);
+        expect(h.db.query("SELECT content FROM chapters ORDER BY chapter_index").map(r => r.content)).toEqual([revised, second]);
+        expect(revised).not.toBe(first);
+        finish(llm, 'rewrite_chapter');
+    });
+
+    it('re-interviews a completed chapter and discards the revision on cancel', async () => {
+        const llm = scriptedProvider('reopen_chapter');
+        const h = await createSessionHarness(llm, THREE_CHAPTERS);
+        const ws = h.connect();
+        await h.send(ws, { type: 'init' });
+        await completeChapter(h, ws);
+        const manuscript = h.session.fullManuscript;
+
+        await h.send(ws, { type: 'reopen_chapter', chapterIndex: 1 });
+        expect(h.session.mode).toBe('interview');
+        expect(h.session.notes).toEqual([]);
+        expect(ws.last('history').content[0].content).toContain('revisit **Chapter 1: Beginnings**');
+        expect(ws.last('draft_chunk').content).toBe(manuscript);
+
+        await h.send(ws, { type: 'message', content: 'I forgot to mention my brother Ravi.' });
+        expect(h.session.notes.length).toBeGreaterThan(0);
+
+        await h.send(ws, { type: 'cancel_revision' });
+        expect(h.session.revision).toBeNull();
+        expect(h.session.currentChapterIndex).toBe(2);
+        expect(h.session.notes).toEqual([]);
+        expect(h.session.fullManuscript).toBe(manuscript);
+        expect(ws.last('draft_chunk').content).toBe(manuscript);
+
+        await h.send(ws, { type: 'reopen_chapter', chapterIndex: 2 });
+        expect(ws.last('error').content).toContain('Chapter 2 has not been completed yet.');
+        finish(llm, 'reopen_chapter');
+    });
+
+    it('saves hand edits to completed chapters and the working draft without clobbering', async () => {
+        const llm = scriptedProvider('manual_edit');
+        const h = await createSessionHarness(llm, THREE_CHAPTERS);
+        const ws = h.connect();
+        const other = h.connect();
+        await h.send(ws, { type: 'init' });
+        await completeChapter(h, ws);
+        await h.send(ws, { type: 'message', content: "I'm done with school." });
+        expect(h.session.mode).toBe('writing');
+
+        const [first, draft] = ws.last('chapters_sync').content;
+        expect(first).toMatchObject({ index: 1, status: 'completed' });
+        expect(draft).toMatchObject({ index: 2, status: 'draft', content: h.session.currentDraft });
+
+        const editedFirst = first.content.replace('ordinary season', 'rainy season');
+        await h.send(ws, { type: 'edit_chapter', chapterIndex: 1, content: editedFirst, baseContent: first.content });
+        expect(h.db.query("SELECT content FROM chapters WHERE chapter_index = 1")[0].content).toBe(editedFirst);
+        expect(h.session.fullManuscript).toBe(editedFirst);
+        expect(other.last('draft_chunk').content).toBe(`${editedFirst}\n\n${draft.content}`);
+
+        // A second tab still holding the old text is refused
+        await h.send(other, { type: 'edit_chapter', chapterIndex: 1, content: 'Stale edit', baseContent: first.content });
+        expect(other.last('edit_conflict').content).toMatchObject({ chapterIndex: 1, current: editedFirst });
+        expect(h.session.fullManuscript).toBe(editedFirst);
+
+        const editedDraft = `${draft.content}\n\nA line I added myself.`;
+        await h.send(other, { type: 'edit_chapter', chapterIndex: 2, content: editedDraft, baseContent: draft.content });
+        expect(h.session.currentDraft).toBe(editedDraft);
+        expect(ws.last('chapters_sync').content[1].content).toBe(editedDraft);
+
+        await h.send(ws, { type: 'next_chapter' });
+        expect(h.db.query("SELECT content FROM chapters WHERE chapter_index = 2")[0].content).toBe(editedDraft);
+        expect(h.session.fullManuscript).toBe(`${editedFirst}\n\n${editedDraft}`);
+        finish(llm, 'manual_edit');
+    });
+
+    it('streams a rewrite for a selected passage and patches only that span on accept', async () => {
+        const llm = scriptedProvider('rewrite_passage');
+        const h = await createSessionHarness(llm, THREE_CHAPTERS);
+        const ws = h.connect();
+        const other = h.connect();
+        await h.send(ws, { type: 'init' });
+        await completeChapter(h, ws);
+        const original = h.session.fullManuscript;
+
+        // Selected across a paragraph break in the rendered book, so the newlines come back as a space
+        const passage = 'more than I knew. There were people who shaped me then';
+        await h.send(ws, { type: 'rewrite_passage', requestId: 'r1', chapterIndex: 1, passage, instruction: 'make this more vivid' });
+
+        expect(ws.ofType('passage_chunk').length).toBeGreaterThan(0);
+        expect(other.ofType('passage_chunk')).toEqual([]);
+        const { content: result } = ws.last('passage_complete');
+        expect(result.replacement).toBe('more than I knew.\n\nThere were people who shaped me then [make this more vivid]');
+        expect(h.session.fullManuscript).toBe(original);
+
+        await h.send(ws, { type: 'apply_passage', chapterIndex: 1, passage, replacement: 'more than I could say.' });
+        const patched = original.replace('more than I knew.\n\nThere were people who shaped me then', 'more than I could say.');
+        expect(h.db.query("SELECT content FROM chapters WHERE chapter_index = 1")[0].content).toBe(patched);
+        expect(h.session.fullManuscript).toBe(patched);
+        expect(other.last('draft_chunk').content).toBe(patched);
+
+        // The passage is gone now, so a second accept of the same suggestion is a conflict
+        await h.send(other, { type: 'apply_passage', chapterIndex: 1, passage, replacement: 'something else' });
+        expect(other.last('edit_conflict').content).toMatchObject({ chapterIndex: 1, current: patched });
+        finish(llm, 'rewrite_passage');
+    });
+
+    it('keeps every version of a chapter and restores an older one as the draft', async () => {
+        const llm = scriptedProvider('chapter_versions');
+        const h = await createSessionHarness(llm);
+        const ws = h.connect();
+        const other = h.connect();
+        await h.send(ws, { type: 'init' });
+        await h.send(ws, { type: 'message', content: "I'm done, next chapter please." });
+        const firstDraft = h.session.currentDraft;
+
+        await h.send(ws, { type: 'retry_chapter' });
+        const edited = `${h.session.currentDraft}\n\nA line I added myself.`;
+        await h.send(ws, { type: 'edit_chapter', chapterIndex: 1, content: edited, baseContent: h.session.currentDraft });
+        expect(other.last('versions_changed').content).toEqual({ chapterIndex: 1 });
+
+        await h.send(ws, { type: 'list_versions', chapterIndex: 1 });
+        const { versions } = ws.last('versions_sync').content;
+        expect(versions.map((v: any) => [v.version, v.source])).toEqual([[3, 'edit'], [2, 'ai'], [1, 'ai']]);
+        expect(versions[0].content).toBe(edited);
+        expect(other.ofType('versions_sync')).toEqual([]);
+
+        await h.send(ws, { type: 'restore_version', versionId: versions[2].id });
+        expect(h.session.currentDraft).toBe(firstDraft);
+        expect(other.last('draft_chunk').content).toBe(firstDraft);
+        expect(h.db.query("SELECT version, source FROM chapter_versions ORDER BY version DESC")[0]).toEqual({ version: 4, source: 'restore' });
+
+        // Restoring into a completed chapter goes through the chapters table
+        await h.send(ws, { type: 'next_chapter' });
+        await h.send(ws, { type: 'restore_version', versionId: versions[0].id });
+        expect(h.db.query("SELECT content FROM chapters WHERE chapter_index = 1")[0].content).toBe(edited);
+        expect(h.session.fullManuscript).toBe(edited);
+        finish(llm, 'chapter_versions');
+    });
+
+    it('edits future chapters of the outline and keeps written ones locked', async () => {
+        const llm = scriptedProvider('update_outline');
+        const h = await createSessionHarness(llm, THREE_CHAPTERS);
+        const ws = h.connect();
+        const other = h.connect();
+        await h.send(ws, { type: 'init' });
+        await completeChapter(h, ws);
+        const [beginnings, school, leaving] = THREE_CHAPTERS.chapters;
+
+        const rejected = [
+            [school, beginnings, leaving],
+            [{ ...beginnings, title: 'Early Years' }, school, leaving],
+            [beginnings, leaving, school],
+            [beginnings, school, leaving, leaving]
+        ];
+        for (const chapters of rejected) {
+            ws.clear();
+            await h.send(ws, { type: 'update_outline', chapters });
+            expect(ws.last('error')).toBeDefined();
+        }
+        expect(h.session.bookContext.chapters).toEqual(THREE_CHAPTERS.chapters);
+
+        await h.send(ws, {
+            type: 'update_outline',
+            chapters: [
+                beginnings,
+                { ...school, title: 'School and Friends' },
+                { title: 'First Job', summary: 'Working at the bank.' },
+                { ...leaving, summary: 'Moving to Mumbai, then Delhi.' }
+            ]
+        });
+        const expected = [
+            beginnings,
+            { index: 2, title: 'School and Friends', summary: school.summary },
+            { index: 3, title: 'First Job', summary: 'Working at the bank.' },
+            { index: 4, title: 'Leaving Home', summary: 'Moving to Mumbai, then Delhi.' }
+        ];
+        expect(other.last('outline').content.chapters).toEqual(expected);
+        expect(JSON.parse(h.db.query("SELECT outline_json FROM books")[0].outline_json as string).chapters).toEqual(expected);
+
+        // Merge chapters 3 and 4 into one. What was only told in the dropped chapter goes with it.
+        for (const [name, chapter] of [['State Bank', 3], ['Delhi', 4]] as const) {
+            await recordFact(h.env.DB, TEST_USER_ID, { kind: 'place', name, detail: null, dateStart: null, dateEnd: null, source: interviewSource(TEST_BOOK_ID, chapter) });
+        }
+        await recordPerson(h.env.DB, TEST_USER_ID, { name: 'Mr. Iyer', relationship: 'manager' }, { bookId: TEST_BOOK_ID, chapter: 3 });
+        await h.send(ws, {
+            type: 'update_outline',
+            chapters: [expected[0], expected[1], { index: 4, title: 'Out Into the World', summary: 'The bank job, then Mumbai and Delhi.' }]
+        });
+        expect(h.session.bookContext.chapters.map((c: any) => `${c.index}. ${c.title}`)).toEqual(['1. Beginnings', '2. School and Friends', '3. Out Into the World']);
+        expect(h.db.query("SELECT name, source FROM facts")).toEqual([{ name: 'Delhi', source: interviewSource(TEST_BOOK_ID, 3) }]);
+        expect(h.db.query("SELECT name, first_chapter FROM people")).toEqual([{ name: 'Mr. Iyer', first_chapter: null }]);
+        expect(h.session.currentChapterIndex).toBe(2);
+        finish(llm, 'update_outline');
+    });
+
+    it('proposes changes to the remaining plan and waits for approval before the next interview', async () => {
+        const llm = scriptedProvider('outline_proposal');
+        const h = await createSessionHarness(llm);
+        const ws = h.connect();
+        await h.send(ws, { type: 'init' });
+        await h.send(ws, { type: 'message', content: "There should be a chapter about my years in the army." });
+        await h.send(ws, { type: 'message', content: "I'm done." });
+        await h.send(ws, { type: 'next_chapter' });
+
+        const { content: proposal } = ws.last('outline_proposal');
+        expect(proposal.afterChapter).toBe(1);
+        expect(proposal.chapters.map((c: any) => [c.index, c.title])).toEqual([[1, 'Beginnings'], [undefined, 'My years in the army'], [2, 'School Days']]);
+        expect(h.session.history).toEqual([]);
+
+        // Nothing moves on until the proposal is resolved, even across an eviction
+        await h.send(ws, { type: 'message', content: "Hello?" });
+        expect(ws.last('error').content).toContain('Review the proposed outline changes first');
+        await h.restart();
+        await h.send(ws, { type: 'init' });
+        expect(h.session.history).toEqual([]);
+
+        await h.send(ws, { type: 'resolve_outline_proposal', accept: true });
+        expect(ws.last('outline_proposal').content).toBeNull();
+        expect(h.session.bookContext.chapters.map((c: any) => `${c.index}. ${c.title}`)).toEqual(['1. Beginnings', '2. My years in the army', '3. School Days']);
+        expect(ws.last('response').content).toContain('Chapter 2: My years in the army');
+        finish(llm, 'outline_proposal');
+    });
+
+    it('drops a proposal that no longer fits the outline instead of leaving it pending', async () => {
+        const h = await createSessionHarness(new MockProvider(), THREE_CHAPTERS);
+        const ws = h.connect();
+        await h.send(ws, { type: 'init' });
+        // Proposed before chapter 3 was removed from the outline
+        const [beginnings, school] = THREE_CHAPTERS.chapters;
+        await h.send(ws, { type: 'update_outline', chapters: [beginnings, school] });
+        h.session.outlineProposal = { afterChapter: 1, reason: 'More about leaving', chapters: THREE_CHAPTERS.chapters, fixed: [1] };
+        ws.clear();
+
+        await h.send(ws, { type: 'resolve_outline_proposal', accept: true });
+        expect(h.session.outlineProposal).toBeNull();
+        expect(await h.state.storage.get('outlineProposal')).toBeUndefined();
+        expect(ws.last('outline_proposal').content).toBeNull();
+        expect(ws.last('error').content).toContain('outline is unchanged');
+        expect(h.session.bookContext.chapters.map((c: any) => c.title)).toEqual([beginnings.title, school.title]);
+    });
+
+    it('works on chapters out of order and resumes a parked chapter where it left off', async () => {
+        const llm = scriptedProvider('switch_chapter');
+        const h = await createSessionHarness(llm, THREE_CHAPTERS);
+        const ws = h.connect();
+        await h.send(ws, { type: 'init' });
+        await h.send(ws, { type: 'message', content: "My father worked at the paper mill." });
+        const chapterOne = { history: h.session.history, notes: h.session.notes };
+        expect(chapterOne.notes).toHaveLength(1);
+
+        await h.send(ws, { type: 'switch_chapter', chapterIndex: 3 });
+        expect(ws.last('chapter_index_sync').content).toBe(3);
+        expect(ws.last('chapter_progress_sync').content).toEqual([1]);
+        expect(ws.last('response').content).toContain('Chapter 3: Leaving Home');
+        expect(h.session.notes).toEqual([]);
+
+        await h.send(ws, { type: 'message', content: "I'm done with Mumbai." });
+        await h.send(ws, { type: 'next_chapter' });
+        expect(h.db.query("SELECT chapter_index FROM chapters").map(r => r.chapter_index)).toEqual([3]);
+
+        // Nothing after chapter 3 is left, so it wraps around and resumes chapter 1
+        expect(h.session.currentChapterIndex).toBe(1);
+        expect(h.session.history).toEqual(chapterOne.history);
+        expect(h.session.notes).toEqual(chapterOne.notes);
+        expect(ws.last('chapter_progress_sync').content).toEqual([]);
+
+        await h.send(ws, { type: 'message', content: "That's all for childhood." });
+        const visible = h.session.visibleManuscript();
+        expect(visible.indexOf('# Chapter 1')).toBe(0);
+        expect(visible.indexOf('# Chapter 3')).toBeGreaterThan(0);
+
+        await h.send(ws, { type: 'next_chapter' });
+        expect(h.session.currentChapterIndex).toBe(2);
+        expect(h.session.fullManuscript).toMatch(/^# Chapter 1[\s\S]*# Chapter 3/);
+
+        await h.send(ws, { type: 'switch_chapter', chapterIndex: 3 });
+        expect(ws.last('error').content).toContain('already written');
+        finish(llm, 'switch_chapter');
+    });
+
+    it('carries a parked chapter\'s progress along when the outline is reordered', async () => {
+        const llm = scriptedProvider('reorder_parked');
+        const h = await createSessionHarness(llm, THREE_CHAPTERS);
+        const ws = h.connect();
+        await h.send(ws, { type: 'init' });
+        await h.send(ws, { type: 'message', content: "My father worked at the paper mill." });
+        const notes = h.session.notes;
+        await h.send(ws, { type: 'add_note', id: 'mine', content: 'Ask about the mill.' });
+        await h.send(ws, { type: 'delete_note', id: 'mine' });
+        await h.send(ws, { type: 'switch_chapter', chapterIndex: 3 });
+        const told = (name: string, chapter: number) => recordFact(h.env.DB, TEST_USER_ID, { kind: 'place', name, detail: null, dateStart: null, dateEnd: null, source: interviewSource(TEST_BOOK_ID, chapter) });
+        await told('Paper mill', 1);
+        await told('Convent school', 2);
+        await told('Mumbai', 3);
+        await recordPerson(h.env.DB, TEST_USER_ID, { name: 'Appa', relationship: 'father' }, { bookId: TEST_BOOK_ID, chapter: 1 });
+
+        const [beginnings, school, leaving] = THREE_CHAPTERS.chapters;
+        await h.send(ws, { type: 'update_outline', chapters: [school, beginnings, leaving] });
+        expect(ws.last('chapter_progress_sync').content).toEqual([2]);
+        expect(h.db.query("SELECT chapter_index FROM notes")).toEqual(notes.map(() => ({ chapter_index: 2 })));
+        // Facts and people still name the chapter they were told in
+        expect(h.db.query("SELECT name, source FROM facts ORDER BY name")).toEqual([
+            { name: 'Convent school', source: interviewSource(TEST_BOOK_ID, 1) },
+            { name: 'Mumbai', source: interviewSource(TEST_BOOK_ID, 3) },
+            { name: 'Paper mill', source: interviewSource(TEST_BOOK_ID, 2) }
+        ]);
+        expect(h.db.query("SELECT first_chapter FROM people")).toEqual([{ first_chapter: 2 }]);
+
+        await h.send(ws, { type: 'switch_chapter', chapterIndex: 2 });
+        expect(h.session.notes).toEqual(notes.map(n => ({ ...n, chapterIndex: 2 })));
+        expect(ws.last('chapter_progress_sync').content).toEqual([3]);
+        // Its note undo moved with it
+        await h.send(ws, { type: 'undo_note' });
+        expect(h.session.notes.slice(-1)).toEqual([expect.objectContaining({ id: 'mine', chapterIndex: 2 })]);
+        finish(llm, 'reorder_parked');
+    });
+
+    it('only opens the interview socket for the book owner\'s access token', async () => {
+        const h = await createSessionHarness(new MockProvider());
+        const issue = async (userId: string) => {
+            const { token, secretHash } = await issueAccessToken(h.env, userId);
+            await h.db.prepare("UPDATE users SET secret_hash = ? WHERE id = ?").bind(secretHash, userId).run();
+            return token;
+        };
+        // No Upgrade header, so a request that gets past the checks stops at 426 instead of opening a socket
+        const open = (token: string) => h.session.fetch(new Request(`https://do/websocket?bookId=${TEST_BOOK_ID}&token=${encodeURIComponent(token)}`));
+
+        const owner = await issue(TEST_USER_ID);
+        await h.db.prepare("INSERT INTO users (id, name, dob, created_at) VALUES (?, ?, ?, ?)").bind("user_other", "Ravi", "1975-01-01", 0).run();
+        const stranger = await issue("user_other");
+
+        expect((await open(owner)).status).toBe(426);
+        expect((await open(stranger)).status).toBe(403);
+        expect((await open("")).status).toBe(401);
+        expect((await open(owner.slice(0, -2) + "xx")).status).toBe(401);
+
+        // Issuing a new device secret revokes the old token
+        await issue(TEST_USER_ID);
+        expect((await open(owner)).status).toBe(401);
+    });
+
+    it('scrubs API credentials that older sessions kept in storage', async () => {
+        const h = await createSessionHarness(new MockProvider());
+        await h.state.storage.put("config", { accountId: "acc", gatewayId: "gw", geminiKey: "secret-key", aigToken: "secret-token" });
+
+        await h.restart();
+        expect(await h.state.storage.get("config")).toBeUndefined();
+
+        // Credentials in the socket URL are ignored rather than saved
+        const { token, secretHash } = await issueAccessToken(h.env, TEST_USER_ID);
+        await h.db.prepare("UPDATE users SET secret_hash = ? WHERE id = ?").bind(secretHash, TEST_USER_ID).run();
+        const res = await h.session.fetch(new Request(`https://do/websocket?bookId=${TEST_BOOK_ID}&token=${encodeURIComponent(token)}&gemini_key=leaked`));
+        expect(res.status).toBe(426);
+        expect(await h.state.storage.get("config")).toBeUndefined();
+    });
+});
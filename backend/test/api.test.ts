@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import { createSessionHarness, TEST_BOOK_ID, TEST_USER_ID, type SessionHarness } from './harness/session';
+import { MockProvider } from '../src/llm';
+import { issueAccessToken } from '../src/auth';
+import { MAX_DOCUMENT_BYTES } from '../src/api';
+import { recordPerson } from '../src/people';
+
+const issue = async (h: SessionHarness, userId: string) => {
+    const { token, secretHash } = await issueAccessToken(h.env, userId);
+    await h.db.prepare("UPDATE users SET secret_hash = ? WHERE id = ?").bind(secretHash, userId).run();
+    return token;
+};
+
+const json = (body: unknown, token?: string): RequestInit => ({
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+    body: typeof body === 'string' ? body : JSON.stringify(body)
+});
+
+const upload = (token: string, file: File, replace?: boolean): RequestInit => {
+    const form = new FormData();
+    form.append('file', file);
+    if (replace !== undefined) form.append('replace', String(replace));
+    return { method: 'POST', headers: { Authorization: `Bearer ${token}` }, body: form };
+};
+
+describe('REST API', () => {
+    it('onboards a user and hands back a token that opens their routes', async () => {
+        const h = await createSessionHarness(new MockProvider());
+
+        let res = await h.api('/api/onboarding', json({ name: '  ', birthLocation: { lat: 'north' } }));
+        expect(res.status).toBe(400);
+        const { error } = await res.json() as any;
+        expect(error.code).toBe('VALIDATION_FAILED');
+        expect(error.message).toBe('Name is required.');
+        expect(error.issues.map((i: any) => i.path)).toEqual(['name', 'dob', 'birthLocation.lat', 'birthLocation.lng']);
+
+        res = await h.api('/api/onboarding', json('{ not json'));
+        expect(await res.json()).toEqual({ success: false, error: { code: 'VALIDATION_FAILED', message: 'Request body must be JSON.' } });
+
+        res = await h.api('/api/onboarding', json({ name: 'Ravi', dob: '1975-01-01', birthLocation: { lat: 18.5, lng: 73.8 } }));
+        const { userId, token } = await res.json() as any;
+        res = await h.api(`/api/users/${userId}/locations`, { headers: { Authorization: `Bearer ${token}` } });
+        expect(await res.json()).toEqual({ success: true, locations: [expect.objectContaining({ label: 'Birthplace', date_start: '1975-01-01' })] });
+    });
+
+    it('turns away requests without the owner\'s access token', async () => {
+        const h = await createSessionHarness(new MockProvider());
+        const token = await issue(h, TEST_USER_ID);
+        const get = (path: string, bearer?: string) => h.api(path, bearer === undefined ? {} : { headers: { Authorization: `Bearer ${bearer}` } });
+
+        for (const bearer of [undefined, '', token.slice(0, -2) + 'xx', `user_other.${token.split('.').slice(1).join('.')}`]) {
+            const res = await get(`/api/users/${TEST_USER_ID}/locations`, bearer);
+            expect(res.status).toBe(401);
+            expect(await res.json()).toEqual({ success: false, error: { code: 'UNAUTHORIZED', message: 'Missing or invalid access token.' } });
+        }
+
+        // A valid token only opens its own user's routes
+        await h.db.prepare("INSERT INTO users (id, name, dob, created_at) VALUES (?, ?, ?, ?)").bind("user_other", "Ravi", "1975-01-01", 0).run();
+        const other = await issue(h, "user_other");
+        let res = await get(`/api/users/${TEST_USER_ID}/locations`, other);
+        expect(res.status).toBe(403);
+        expect((await res.json() as any).error.code).toBe('FORBIDDEN');
+        expect((await get(`/api/users/${TEST_USER_ID}/locations`, token)).status).toBe(200);
+
+        res = await get('/api/nothing-here', token);
+        expect(res.status).toBe(404);
+        expect((await res.json() as any).error.code).toBe('NOT_FOUND');
+    });
+
+    it('lets the browser that made a book claim a token for a user onboarded before tokens, once', async () => {
+        const h = await createSessionHarness(new MockProvider());
+        const claim = (bookId: string) => h.api('/api/claim', json({ userId: TEST_USER_ID, bookId }));
+
+        expect((await claim('someone-elses-book')).status).toBe(403);
+        const res = await claim(TEST_BOOK_ID);
+        const { token } = await res.json() as any;
+        expect((await h.api(`/api/users/${TEST_USER_ID}/locations`, { headers: { Authorization: `Bearer ${token}` } })).status).toBe(200);
+
+        // Claimed users are like any other: the book id alone no longer gets a token
+        expect(await (await claim(TEST_BOOK_ID)).json()).toEqual({ success: false, error: { code: 'FORBIDDEN', message: expect.any(String) } });
+    });
+
+    it('validates locations and reports the ones that are not there', async () => {
+        const h = await createSessionHarness(new MockProvider());
+        const token = await issue(h, TEST_USER_ID);
+        const base = `/api/users/${TEST_USER_ID}/locations`;
+
+        let res = await h.api(base, json({ lat: 18.5, lng: 73.8, label: 'Pune', dateStart: '1990', dateEnd: '1985' }, token));
+        expect(res.status).toBe(400);
+        expect((await res.json() as any).error.issues).toEqual([{ path: 'dateEnd', message: "A move can't end before it starts." }]);
+
+        res = await h.api(`${base}/missing`, { ...json({ lat: 18.5, lng: 73.8, label: 'Pune' }, token), method: 'PUT' });
+        expect(res.status).toBe(404);
+        res = await h.api(`${base}/missing`, { method: 'DELETE', headers: { Authorization: `Bearer ${token}` } });
+        expect(res.status).toBe(404);
+    });
+
+    it('stores uploads, refuses duplicates without replace and files it cannot take', async () => {
+        const h = await createSessionHarness(new MockProvider());
+        const token = await issue(h, TEST_USER_ID);
+        const auth = { headers: { Authorization: `Bearer ${token}` } };
+        const errorOf = async (res: Response) => ({ status: res.status, ...(await res.json() as any).error });
+
+        let res = await h.api('/api/documents', upload(token, new File(['Born in Pune.'], 'diary.txt', { type: 'text/plain' })));
+        expect(await res.json()).toEqual({ success: true, key: `documents/${TEST_USER_ID}/diary.txt`, document: expect.objectContaining({ name: 'diary.txt', hasOriginal: true }) });
+
+        const again = new File(['Born in Pune, 1980.'], 'diary.txt');
+        expect(await errorOf(await h.api('/api/documents', upload(token, again)))).toEqual({ status: 409, code: 'CONFLICT', message: 'A document named "diary.txt" is already in your archives.' });
+        expect((await h.api('/api/documents', upload(token, again, true))).status).toBe(200);
+        res = await h.api('/api/documents/diary.txt', auth);
+        expect((await res.json() as any).text).toBe('Born in Pune, 1980.');
+        res = await h.api('/api/documents/diary.txt/original', auth);
+        expect(await res.text()).toBe('Born in Pune, 1980.');
+        expect((await h.api('/api/documents/diary.txt/extract', { ...auth, method: 'POST' })).status).toBe(200);
+
+        expect(await errorOf(await h.api('/api/documents', upload(token, new File(['x'], 'photo.jpg')))))
+            .toEqual(expect.objectContaining({ status: 400, code: 'VALIDATION_FAILED', message: expect.stringContaining('Unsupported file type') }));
+        expect(await errorOf(await h.api('/api/documents', upload(token, new File([new Uint8Array(MAX_DOCUMENT_BYTES + 1)], 'huge.txt')))))
+            .toEqual(expect.objectContaining({ status: 400, code: 'VALIDATION_FAILED', message: 'Files can be at most 25 MB.' }));
+        expect(await errorOf(await h.api('/api/documents', upload(token, new File(['not a zip'], 'resume.docx')))))
+            .toEqual(expect.objectContaining({ status: 400, code: 'VALIDATION_FAILED', message: expect.stringContaining('Could not read resume.docx') }));
+        expect(h.bucket.objects.has(`originals/${TEST_USER_ID}/resume.docx`)).toBe(false);
+
+        expect((await h.api('/api/documents/diary.txt', { ...auth, method: 'DELETE' })).status).toBe(200);
+        expect(h.bucket.objects.has(`originals/${TEST_USER_ID}/diary.txt`)).toBe(false);
+        expect(await errorOf(await h.api('/api/documents/diary.txt', auth))).toEqual({ status: 404, code: 'NOT_FOUND', message: 'Document not found.' });
+    });
+
+    it('takes the people only a deleted document mentioned out of the registry', async () => {
+        const h = await createSessionHarness(new MockProvider());
+        const token = await issue(h, TEST_USER_ID);
+        const people = () => h.db.query("SELECT name, first_chapter, documents_json FROM people ORDER BY name");
+
+        await h.api('/api/documents', upload(token, new File(['My aunt Leela wrote from Nashik in 1985. My teacher Kulkarni visited.'], 'letters.txt')));
+        await h.api('/api/documents', upload(token, new File(['My aunt Leela came to stay.'], 'diary.txt')));
+        await recordPerson(h.env.DB, TEST_USER_ID, { name: 'Kulkarni' }, { bookId: TEST_BOOK_ID, chapter: 1 });
+        expect(people()).toEqual([
+            { name: 'Kulkarni', first_chapter: 1, documents_json: '["letters.txt"]' },
+            { name: 'Leela', first_chapter: null, documents_json: '["letters.txt","diary.txt"]' }
+        ]);
+
+        // Re-reading a document drops the people it no longer names
+        await h.api('/api/documents', upload(token, new File(['Nashik, 1985.'], 'letters.txt'), true));
+        expect(people()).toEqual([
+            { name: 'Kulkarni', first_chapter: 1, documents_json: '[]' },
+            { name: 'Leela', first_chapter: null, documents_json: '["diary.txt"]' }
+        ]);
+
+        // The interview still knows Kulkarni
+        await h.api('/api/documents/diary.txt', { method: 'DELETE', headers: { Authorization: `Bearer ${token}` } });
+        expect(people()).toEqual([{ name: 'Kulkarni', first_chapter: 1, documents_json: '[]' }]);
+    });
+});
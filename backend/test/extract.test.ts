@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { strToU8, zipSync } from 'fflate';
+import { extractDocument } from '../src/extract';
+
+// Tiny archives built in memory; real files only add bulk
+const zip = (files: Record<string, string>) => zipSync(Object.fromEntries(Object.entries(files).map(([name, text]) => [name, strToU8(text)])));
+
+// A PDF with one line of text per page. pdfjs rebuilds the cross-reference table, so offsets needn't be exact.
+const pdf = (pages: string[]) => {
+    const objects = [
+        `<< /Type /Catalog /Pages 2 0 R >>`,
+        `<< /Type /Pages /Kids [${pages.map((_, i) => `${4 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+        `<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>`,
+        ...pages.flatMap((text, i) => {
+            const stream = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+            return [
+                `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + i * 2} 0 R >>`,
+                `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+            ];
+        })
+    ];
+    const body = objects.map((object, i) => `${i + 1} 0 obj\n${object}\nendobj\n`).join('');
+    return strToU8(`%PDF-1.4\n${body}trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\n%%EOF\n`);
+};
+
+const docx = (body: string, pages?: number) => zip({
+    'word/document.xml': `<?xml version="1.0"?><w:document xmlns:w="w"><w:body>${body}</w:body></w:document>`,
+    ...(pages ? { 'docProps/app.xml': `<Properties><Pages>${pages}</Pages></Properties>` } : {}),
+    'word/media/photo.png': 'not really a picture'
+});
+
+const paragraph = (text: string, style?: string, extra = '') =>
+    `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''}<w:r>${extra}<w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+
+describe('extractDocument', () => {
+    it('marks where each PDF page starts', async () => {
+        const { text, pageCount } = await extractDocument('letters.pdf', pdf(['Dear Amma,', 'Love, Ravi']));
+        expect(text).toBe('[Page 1]\n\nDear Amma,\n\n[Page 2]\n\nLove, Ravi');
+        expect(pageCount).toBe(2);
+    });
+
+    it('keeps plain text as written, with paragraphs and entities untouched', async () => {
+        const { text, pageCount } = await extractDocument('notes.txt', strToU8('\uFEFFFirst  line\r\n\r\n\r\n\r\nSecond &amp; last\n'));
+        expect(text).toBe('First line\n\nSecond &amp; last');
+        expect(pageCount).toBeNull();
+    });
+
+    it('turns Markdown headings into sections', async () => {
+        const { text } = await extractDocument('memoir.md', strToU8('# Early years ##\nBorn in Pune.\n\n   ### The river\nWe swam every summer.'));
+        expect(text).toBe('[Section: Early years]\n\nBorn in Pune.\n\n[Section: The river]\n\nWe swam every summer.');
+    });
+
+    it('reads DOCX paragraphs with headings as sections and entities decoded', async () => {
+        const { text, pageCount } = await extractDocument('resume.docx', docx(
+            paragraph('Career', 'Heading1') +
+            paragraph('Tata &amp; Sons, 1990&#8211;1995') +
+            `<w:p><w:r><w:t>Engineer</w:t><w:tab/><w:t>Pune</w:t></w:r></w:p>` +
+            paragraph('  ')
+        ));
+        expect(text).toBe('[Section: Career]\n\nTata & Sons, 1990–1995\n\nEngineer Pune');
+        expect(pageCount).toBeNull();
+    });
+
+    it('pages DOCX by the breaks Word rendered, and by manual breaks when there are none', async () => {
+        const rendered = await extractDocument('diary.docx', docx(
+            paragraph('Monday') +
+            // A manual break Word also rendered counts once
+            paragraph('Tuesday', undefined, '<w:br w:type="page"/><w:lastRenderedPageBreak/>') +
+            paragraph('Wednesday', undefined, '<w:lastRenderedPageBreak/>'),
+            3
+        ));
+        expect(rendered.text).toBe('[Page 1]\n\nMonday\n\n[Page 2]\n\nTuesday\n\n[Page 3]\n\nWednesday');
+        expect(rendered.pageCount).toBe(3);
+
+        const manual = await extractDocument('diary.docx', docx(paragraph('Monday') + paragraph('Tuesday', undefined, '<w:br w:type="page"/>')));
+        expect(manual.text).toBe('[Page 1]\n\nMonday\n\n[Page 2]\n\nTuesday');
+        expect(manual.pageCount).toBe(2);
+    });
+
+    it('reads an EPUB in spine order, skipping non-linear items and resolving relative paths', async () => {
+        const chapter = (title: string, body: string) =>
+            `<html><head><title>${title}</title><style>p { color: red }</style></head><body>${body}</body></html>`;
+        const epub = zip({
+            'META-INF/container.xml': `<container><rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles></container>`,
+            'OEBPS/content.opf': `<package><manifest>
+                <item id="cover" href="cover.xhtml"/>
+                <item id="one" href="text/one.xhtml"/>
+                <item id="two" href='./text/../text/two%20b.xhtml'/>
+                <item id="notes" href="notes.xhtml"/>
+                <item id="font" href="fonts/serif.otf"/>
+            </manifest><spine>
+                <itemref idref="two"/>
+                <itemref idref="notes" linear="no"/>
+                <itemref idref="one"/>
+            </spine></package>`,
+            'OEBPS/text/one.xhtml': chapter('One', '<h1>The Mill</h1><p>Father worked&nbsp;there.<br/>Every day.</p>'),
+            'OEBPS/text/two b.xhtml': chapter('Leaving &amp; Arriving', '<p>We took the train &#x2014; at night.</p>'),
+            'OEBPS/notes.xhtml': chapter('Notes', '<p>Endnotes.</p>'),
+            'OEBPS/cover.xhtml': chapter('Cover', '<p>Cover</p>'),
+            'OEBPS/fonts/serif.otf': 'a font'
+        });
+
+        const { text, pageCount } = await extractDocument('book.epub', epub);
+        expect(text).toBe('[Section: Leaving & Arriving]\n\nWe took the train — at night.\n\n[Section: The Mill]\n\nFather worked there.\nEvery day.');
+        expect(pageCount).toBeNull();
+    });
+
+    it('refuses files it cannot read', async () => {
+        await expect(extractDocument('scan.tiff', new Uint8Array())).rejects.toThrow('Unsupported file type');
+        await expect(extractDocument('book.epub', zip({ 'META-INF/container.xml': '<container/>' }))).rejects.toThrow('no rootfile');
+        await expect(extractDocument('resume.docx', zip({ 'word/other.xml': '' }))).rejects.toThrow('Missing word/document.xml');
+    });
+});
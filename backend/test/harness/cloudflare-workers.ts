@@ -0,0 +1,10 @@
+// Stand-in for the "cloudflare:workers" runtime module used by InterviewSession.
+export class DurableObject<Env = unknown> {
+    ctx: DurableObjectState;
+    env: Env;
+
+    constructor(ctx: DurableObjectState, env: Env) {
+        this.ctx = ctx;
+        this.env = env;
+    }
+}
@@ -0,0 +1,89 @@
+import initSqlJs, { type Database, type SqlValue } from 'sql.js';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+
+// In-memory D1 backed by sql.js (SQLite compiled to wasm), seeded with src/schema.sql.
+// Covers the subset of the D1 API the worker uses: prepare/bind/first/all/run/raw, batch and exec.
+
+const SCHEMA_PATH = fileURLToPath(new URL('../../src/schema.sql', import.meta.url));
+
+type Row = Record<string, unknown>;
+
+class MemoryStatement {
+    constructor(private db: Database, private sql: string, private params: SqlValue[] = []) {}
+
+    bind(...values: unknown[]) {
+        const params = values.map(v => v === undefined ? null : typeof v === 'boolean' ? Number(v) : v) as SqlValue[];
+        return new MemoryStatement(this.db, this.sql, params);
+    }
+
+    private rows(): Row[] {
+        const stmt = this.db.prepare(this.sql);
+        try {
+            stmt.bind(this.params);
+            const out: Row[] = [];
+            while (stmt.step()) out.push(stmt.getAsObject() as Row);
+            return out;
+        } finally {
+            stmt.free();
+        }
+    }
+
+    async first<T = Row>(column?: string): Promise<T | null> {
+        const row = this.rows()[0];
+        if (!row) return null;
+        return (column ? row[column] : row) as T;
+    }
+
+    async all<T = Row>() {
+        return { results: this.rows() as T[], success: true, meta: {} };
+    }
+
+    async raw<T = unknown[]>() {
+        return this.rows().map(r => Object.values(r)) as T[];
+    }
+
+    async run() {
+        this.db.run(this.sql, this.params);
+        return { results: [], success: true, meta: { changes: this.db.getRowsModified() } };
+    }
+}
+
+export class MemoryD1 {
+    constructor(readonly db: Database) {}
+
+    prepare(sql: string) {
+        return new MemoryStatement(this.db, sql);
+    }
+
+    async batch(statements: MemoryStatement[]) {
+        const results = [];
+        for (const stmt of statements) results.push(await stmt.all());
+        return results;
+    }
+
+    async exec(sql: string) {
+        this.db.exec(sql);
+        return { count: 1, duration: 0 };
+    }
+
+    // Test helper: synchronous SELECT for assertions
+    query(sql: string, ...params: SqlValue[]): Row[] {
+        const stmt = this.db.prepare(sql);
+        const out: Row[] = [];
+        try {
+            stmt.bind(params);
+            while (stmt.step()) out.push(stmt.getAsObject() as Row);
+        } finally {
+            stmt.free();
+        }
+        return out;
+    }
+}
+
+export async function createMemoryD1(): Promise<MemoryD1> {
+    const SQL = await initSqlJs();
+    const db = new SQL.Database();
+    db.exec(readFileSync(SCHEMA_PATH, 'utf-8'));
+    return new MemoryD1(db);
+}
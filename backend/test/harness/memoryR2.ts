@@ -0,0 +1,72 @@
+// Map-backed stand-in for the R2 bucket binding (put/get/head/list/delete).
+
+interface StoredObject {
+    key: string;
+    body: Uint8Array;
+    uploaded: Date;
+    httpMetadata?: Record<string, string>;
+    customMetadata?: Record<string, string>;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBytes = async (value: unknown): Promise<Uint8Array> => {
+    if (value === null || value === undefined) return new Uint8Array();
+    if (typeof value === 'string') return encoder.encode(value);
+    if (value instanceof Uint8Array) return value;
+    if (value instanceof ArrayBuffer) return new Uint8Array(value);
+    if (ArrayBuffer.isView(value)) return new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+    if (value instanceof Blob) return new Uint8Array(await value.arrayBuffer());
+    if (value instanceof ReadableStream) return new Uint8Array(await new Response(value).arrayBuffer());
+    throw new Error(`MemoryR2: unsupported body type ${typeof value}`);
+};
+
+const describe = (obj: StoredObject) => ({
+    key: obj.key,
+    size: obj.body.byteLength,
+    uploaded: obj.uploaded,
+    etag: `${obj.key}:${obj.uploaded.getTime()}`,
+    httpMetadata: obj.httpMetadata || {},
+    customMetadata: obj.customMetadata || {}
+});
+
+export class MemoryR2 {
+    objects = new Map<string, StoredObject>();
+
+    async put(key: string, value: unknown, options: { httpMetadata?: Record<string, string>; customMetadata?: Record<string, string> } = {}) {
+        const obj: StoredObject = { key, body: await toBytes(value), uploaded: new Date(), ...options };
+        this.objects.set(key, obj);
+        return describe(obj);
+    }
+
+    async head(key: string) {
+        const obj = this.objects.get(key);
+        return obj ? describe(obj) : null;
+    }
+
+    async get(key: string) {
+        const obj = this.objects.get(key);
+        if (!obj) return null;
+        return {
+            ...describe(obj),
+            get body() { return new Blob([obj.body]).stream(); },
+            text: async () => decoder.decode(obj.body),
+            json: async () => JSON.parse(decoder.decode(obj.body)),
+            arrayBuffer: async () => obj.body.slice().buffer
+        };
+    }
+
+    async delete(keys: string | string[]) {
+        for (const key of Array.isArray(keys) ? keys : [keys]) this.objects.delete(key);
+    }
+
+    async list(options: { prefix?: string } = {}) {
+        const prefix = options.prefix || "";
+        const objects = [...this.objects.values()]
+            .filter(o => o.key.startsWith(prefix))
+            .sort((a, b) => a.key.localeCompare(b.key))
+            .map(describe);
+        return { objects, truncated: false, delimitedPrefixes: [] };
+    }
+}
@@ -0,0 +1,91 @@
+// In-memory DurableObjectState: key/value storage, hibernatable WebSocket registry and blockConcurrencyWhile.
+
+export class FakeSocket {
+    sent: any[] = [];
+    closed = false;
+
+    send(data: string) {
+        if (this.closed) throw new Error("Socket closed");
+        this.sent.push(JSON.parse(data));
+    }
+
+    close() {
+        this.closed = true;
+    }
+
+    // Messages of a given type received since the socket was opened (or last cleared)
+    ofType(type: string) {
+        return this.sent.filter(m => m.type === type);
+    }
+
+    last(type: string) {
+        const all = this.ofType(type);
+        return all[all.length - 1];
+    }
+
+    clear() {
+        this.sent = [];
+    }
+}
+
+export class MemoryStorage {
+    data = new Map<string, unknown>();
+
+    async get(keyOrKeys: string | string[]): Promise<any> {
+        if (Array.isArray(keyOrKeys)) {
+            const out = new Map<string, unknown>();
+            for (const key of keyOrKeys) {
+                if (this.data.has(key)) out.set(key, structuredClone(this.data.get(key)));
+            }
+            return out;
+        }
+        return structuredClone(this.data.get(keyOrKeys));
+    }
+
+    async put(keyOrEntries: string | Record<string, unknown>, value?: unknown) {
+        if (typeof keyOrEntries === 'string') {
+            this.data.set(keyOrEntries, structuredClone(value));
+            return;
+        }
+        for (const [key, v] of Object.entries(keyOrEntries)) this.data.set(key, structuredClone(v));
+    }
+
+    async delete(keyOrKeys: string | string[]) {
+        const keys = Array.isArray(keyOrKeys) ? keyOrKeys : [keyOrKeys];
+        let deleted = 0;
+        for (const key of keys) if (this.data.delete(key)) deleted++;
+        return Array.isArray(keyOrKeys) ? deleted : deleted > 0;
+    }
+
+    async list(options: { prefix?: string } = {}) {
+        const out = new Map<string, unknown>();
+        for (const key of [...this.data.keys()].sort()) {
+            if (!options.prefix || key.startsWith(options.prefix)) out.set(key, structuredClone(this.data.get(key)));
+        }
+        return out;
+    }
+}
+
+export class MemoryState {
+    storage = new MemoryStorage();
+    sockets: FakeSocket[] = [];
+    pending: Promise<unknown>[] = [];
+
+    acceptWebSocket(ws: FakeSocket) {
+        this.sockets.push(ws);
+    }
+
+    getWebSockets() {
+        return this.sockets.filter(s => !s.closed);
+    }
+
+    blockConcurrencyWhile<T>(fn: () => Promise<T>) {
+        const p = fn();
+        this.pending.push(p);
+        return p;
+    }
+
+    async ready() {
+        await Promise.all(this.pending);
+    }
+}
@@ -0,0 +1,115 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createLLMProvider, type GenerateRequest, type GenerateResult, type LLMProvider, type StreamRequest } from '../../src/llm';
+
+// Record/replay for LLM transcripts.
+// RECORD_FIXTURES=1 runs the scenario against a live provider (LLM_PROVIDER, CF_ACCOUNT_ID, CF_GATEWAY_ID,
+// GEMINI_API_KEY, CF_AIG_TOKEN from the shell) and writes every generate/stream exchange to test/fixtures.
+// Without it, the fixture is replayed in order and any drift in the calls the DO makes fails the test.
+
+type RecordedCall =
+    | { kind: 'generate'; tools: string[]; result: GenerateResult }
+    | { kind: 'stream'; chunks: string[] };
+
+export interface Fixture {
+    scenario: string;
+    provider: string;
+    calls: RecordedCall[];
+}
+
+const fixturePath = (scenario: string) => fileURLToPath(new URL(`../fixtures/${scenario}.json`, import.meta.url));
+
+const toolNames = (request: GenerateRequest) => (request.tools || []).map(t => t.name);
+
+export class RecordingProvider implements LLMProvider {
+    readonly name: string;
+    calls: RecordedCall[] = [];
+
+    constructor(private inner: LLMProvider) {
+        this.name = `record:${inner.name}`;
+    }
+
+    async generate(request: GenerateRequest) {
+        const result = await this.inner.generate(request);
+        this.calls.push({ kind: 'generate', tools: toolNames(request), result });
+        return result;
+    }
+
+    async *stream(request: StreamRequest) {
+        const chunks: string[] = [];
+        try {
+            for await (const chunk of this.inner.stream(request)) {
+                chunks.push(chunk);
+                yield chunk;
+            }
+        } finally {
+            this.calls.push({ kind: 'stream', chunks });
+        }
+    }
+
+    save(scenario: string) {
+        const path = fixturePath(scenario);
+        mkdirSync(dirname(path), { recursive: true });
+        const fixture: Fixture = { scenario, provider: this.inner.name, calls: this.calls };
+        writeFileSync(path, JSON.stringify(fixture, null, 2) + "\n");
+    }
+}
+
+export class ReplayProvider implements LLMProvider {
+    readonly name = "replay";
+    private cursor = 0;
+
+    constructor(private fixture: Fixture) {}
+
+    private next<K extends RecordedCall['kind']>(kind: K): Extract<RecordedCall, { kind: K }> {
+        const recorded = this.fixture.calls[this.cursor];
+        if (!recorded) {
+            throw new Error(`Fixture "${this.fixture.scenario}" exhausted after ${this.cursor} calls (wanted ${kind}). Re-record with RECORD_FIXTURES=1.`);
+        }
+        if (recorded.kind !== kind) {
+            throw new Error(`Fixture "${this.fixture.scenario}" call #${this.cursor} is ${recorded.kind}, DO asked for ${kind}.`);
+        }
+        this.cursor++;
+        return recorded as Extract<RecordedCall, { kind: K }>;
+    }
+
+    async generate(request: GenerateRequest) {
+        const recorded = this.next('generate');
+        const tools = toolNames(request);
+        if (tools.join(',') !== recorded.tools.join(',')) {
+            throw new Error(`Fixture "${this.fixture.scenario}" call #${this.cursor - 1} was recorded with tools [${recorded.tools}] but DO sent [${tools}].`);
+        }
+        return structuredClone(recorded.result);
+    }
+
+    async *stream(request: StreamRequest) {
+        const recorded = this.next('stream');
+        for (const chunk of recorded.chunks) {
+            if (request.signal?.aborted) throw new Error("Aborted");
+            yield chunk;
+        }
+    }
+
+    get remaining() {
+        return this.fixture.calls.length - this.cursor;
+    }
+}
+
+export const isRecording = () => !!process.env.RECORD_FIXTURES;
+
+// Scripted provider for a scenario: a recorder in record mode, a replayer otherwise
+export function scriptedProvider(scenario: string): RecordingProvider | ReplayProvider {
+    if (isRecording()) {
+        return new RecordingProvider(createLLMProvider({
+            provider: process.env.LLM_PROVIDER || "mock",
+            accountId: process.env.CF_ACCOUNT_ID || "",
+            gatewayId: process.env.CF_GATEWAY_ID || "",
+            apiKey: process.env.GEMINI_API_KEY || "",
+            aigToken: process.env.CF_AIG_TOKEN
+        }));
+    }
+    const path = fixturePath(scenario);
+    if (!existsSync(path)) throw new Error(`Missing fixture ${path}. Record it with RECORD_FIXTURES=1.`);
+    return new ReplayProvider(JSON.parse(readFileSync(path, 'utf-8')));
+}
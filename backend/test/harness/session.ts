@@ -0,0 +1,87 @@
+import app from '../../src/index';
+import { InterviewSession } from '../../src/durable_objects/InterviewSession';
+import type { LLMProvider } from '../../src/llm';
+import type { AuthEnv } from '../../src/auth';
+import { createMemoryD1, type MemoryD1 } from './memoryD1';
+import { MemoryR2 } from './memoryR2';
+import { FakeSocket, MemoryState } from './memoryState';
+
+export const TEST_USER_ID = "user_test";
+export const TEST_BOOK_ID = "book_test";
+
+export const TEST_OUTLINE = {
+    title: "A Test Life",
+    chapters: [
+        { index: 1, title: "Beginnings", summary: "Childhood in Pune." },
+        { index: 2, title: "School Days", summary: "Teachers, friends and exams." }
+    ]
+};
+
+export interface SessionHarness {
+    session: InterviewSession;
+    env: AuthEnv;
+    state: MemoryState;
+    db: MemoryD1;
+    bucket: MemoryR2;
+    connect(): FakeSocket;
+    send(ws: FakeSocket, message: Record<string, unknown>): Promise<void>;
+    // Reload the DO from its storage, as after an eviction
+    restart(): Promise<InterviewSession>;
+    // Calls the worker's REST API against the same D1, R2 and session, with the mock LLM
+    api(path: string, init?: RequestInit): Promise<Response>;
+}
+
+export async function createSessionHarness(provider: LLMProvider, outline = TEST_OUTLINE): Promise<SessionHarness> {
+    const db = await createMemoryD1();
+    const bucket = new MemoryR2();
+    const state = new MemoryState();
+
+    await db.prepare("INSERT INTO users (id, name, dob, created_at) VALUES (?, ?, ?, ?)").bind(TEST_USER_ID, "Asha Rao", "1980-04-02", 0).run();
+    await db.prepare("INSERT INTO books (id, user_id, title, outline_json) VALUES (?, ?, ?, ?)").bind(TEST_BOOK_ID, TEST_USER_ID, outline.title, JSON.stringify(outline)).run();
+    await state.storage.put("bookId", TEST_BOOK_ID);
+
+    const env = { DB: db, BUCKET: bucket, CF_ACCOUNT_ID: "", CF_GATEWAY_ID: "", GEMINI_API_KEY: "", SESSION_SIGNING_KEY: "test-signing-key" };
+
+    class ScriptedSession extends InterviewSession {
+        llm() { return provider; }
+    }
+
+    const boot = async () => {
+        const session = new ScriptedSession(state as any, env as any);
+        await state.ready();
+        return session;
+    };
+
+    const harness: SessionHarness = {
+        session: await boot(),
+        env: env as unknown as AuthEnv,
+        state,
+        db,
+        bucket,
+        connect() {
+            const ws = new FakeSocket();
+            state.acceptWebSocket(ws);
+            return ws;
+        },
+        async send(ws, message) {
+            await harness.session.webSocketMessage(ws as any, JSON.stringify(message));
+        },
+        async restart() {
+            harness.session = await boot();
+            return harness.session;
+        },
+        async api(path, init) {
+            return app.fetch(new Request(`https://worker${path}`, init), workerEnv);
+        }
+    };
+    // Every book's session is this one
+    const workerEnv = {
+        ...env,
+        LLM_PROVIDER: "mock",
+        INTERVIEW_SESSION: {
+            idFromName: (name: string) => name,
+            get: () => ({ fetch: (input: RequestInfo, init?: RequestInit) => harness.session.fetch(new Request(input, init)) })
+        }
+    };
+    return harness;
+}
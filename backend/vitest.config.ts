@@ -0,0 +1,15 @@
+import { defineConfig } from 'vitest/config';
+import { fileURLToPath } from 'node:url';
+
+export default defineConfig({
+    resolve: {
+        alias: {
+            // Workers runtime module, replaced by a plain base class for in-process tests
+            'cloudflare:workers': fileURLToPath(new URL('./test/harness/cloudflare-workers.ts', import.meta.url))
+        }
+    },
+    test: {
+        include: ['test/**/*.test.ts'],
+        environment: 'node'
+    }
+});
@@ -3,7 +3,7 @@ import { Onboarding } from './components/Onboarding';
 import { DocumentUpload } from './components/DocumentUpload';
 import { Workspace } from './components/Workspace';
 import { Loader2 } from 'lucide-react';
-import { API_BASE_URL } from './utils/api';
+import { apiJson, getAccessToken, setAccessToken, type ClaimRequest, type ClaimResponse, type OnboardingRequest, type OnboardingResponse, type StartBookRequest, type StartBookResponse } from './utils/api';
 
 function App() {
   const [phase, setPhase] = useState<'onboarding' | 'upload' | 'creating' | 'workspace'>('onboarding');
@@ -19,14 +19,26 @@ function App() {
     const savedSessionId = localStorage.getItem('cf_ai_sessionId');
     const savedTitle = localStorage.getItem('cf_ai_title');
 
-    if (savedPhase && savedUserId) {
+    const restore = async () => {
+      // Sessions saved before access tokens existed claim one with their book, once; without a book they start over
+      if (savedPhase && savedUserId && !getAccessToken() && savedSessionId) {
+        try {
+          const claimed = await apiJson<ClaimResponse, ClaimRequest>('/api/claim', 'POST', { userId: savedUserId, bookId: savedSessionId });
+          setAccessToken(claimed.token);
+        } catch (e) {
+          console.error(e);
+        }
+      }
+      if (savedPhase && savedUserId && getAccessToken()) {
         setUserId(savedUserId);
         if (savedSessionId) setSessionId(savedSessionId);
         if (savedTitle) setBookTitle(savedTitle);
         // Cast to valid phase type
         setPhase(savedPhase as any);
-    }
-    setIsRestoring(false);
+      }
+      setIsRestoring(false);
+    };
+    restore();
   }, []);
 
   // Persist state changes
@@ -39,48 +51,28 @@ function App() {
     }
   }, [phase, userId, sessionId, bookTitle, isRestoring]);
 
-  const handleOnboardingComplete = async (data: { name: string; dob: string; birthLocation: { lat: number; lng: number } }) => {
+  const handleOnboardingComplete = async (data: OnboardingRequest) => {
     try {
-      const res = await fetch(`${API_BASE_URL}/api/onboarding`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(data)
-      });
-      const result = await res.json();
-
-      if (result.success) {
-        setUserId(result.userId);
-        setPhase('upload');
-      } else {
-        alert("Failed to create user: " + (result.error || "Unknown error"));
-      }
+      const result = await apiJson<OnboardingResponse, OnboardingRequest>('/api/onboarding', 'POST', data);
+      setAccessToken(result.token);
+      setUserId(result.userId);
+      setPhase('upload');
     } catch (e) {
       console.error(e);
-      alert("Critial error creating user.");
+      alert("Failed to create user: " + (e as Error).message);
     }
   };
 
   const handleUploadComplete = async () => {
     setPhase('creating');
     try {
-      const res = await fetch(`${API_BASE_URL}/api/books/start`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ userId, title: 'My Autobiography' })
-      });
-      const data = await res.json();
-
-      if (data.success) {
-        setSessionId(data.bookId); 
-        setBookTitle(data.outline.title);
-        setPhase('workspace');
-      } else {
-        alert("Failed to create book: " + data.error);
-        setPhase('upload');
-      }
+      const data = await apiJson<StartBookResponse, StartBookRequest>('/api/books/start', 'POST', { title: 'My Autobiography' });
+      setSessionId(data.bookId);
+      setBookTitle(data.outline.title);
+      setPhase('workspace');
     } catch (e) {
       console.error(e);
-      alert("Critial error starting book.");
+      alert("Failed to create book: " + (e as Error).message);
       setPhase('upload');
     }
   };
@@ -92,7 +84,7 @@ function App() {
       {phase === 'onboarding' && <Onboarding onComplete={handleOnboardingComplete} />}
 
       {phase === 'upload' && userId && (
-        <DocumentUpload userId={userId} onUploadComplete={handleUploadComplete} />
+        <DocumentUpload onUploadComplete={handleUploadComplete} />
       )}
 
       {phase === 'creating' && (
@@ -104,7 +96,7 @@ function App() {
       )}
 
       {phase === 'workspace' && sessionId && (
-        <Workspace sessionId={sessionId} bookTitle={bookTitle} />
+        <Workspace sessionId={sessionId} userId={userId} bookTitle={bookTitle} />
       )}
     </div>
   );
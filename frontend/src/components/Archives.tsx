@@ -0,0 +1,180 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FileText, Plus, Trash2, Loader2, RefreshCw } from 'lucide-react';
+import { cn } from '../utils/cn';
+import { apiJson, uploadDocument, DOCUMENT_ACCEPT, type DocumentDigest, type DocumentInfo, type DocumentListResponse, type DocumentResponse, type DocumentUploadResponse, type SuccessResponse } from '../utils/api';
+
+interface ArchivesProps {
+    active: boolean;
+    onError: (message: string) => void;
+}
+
+const documentPath = (name: string) => `/api/documents/${encodeURIComponent(name)}`;
+
+const formatSize = (bytes: number) => bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// What the biographer took away from a document, shown above its text
+const DigestCard: React.FC<{ digest: DocumentDigest }> = ({ digest }) => (
+    <div className="mb-8 p-5 bg-[#f4ecd8] border border-[#2c1810]/10 whitespace-normal">
+        <div className="text-[10px] font-sans font-bold uppercase tracking-[0.25em] text-stone-500 mb-2">
+            Digest{(digest.periodStart || digest.periodEnd) && ` · ${digest.periodStart || "?"} to ${digest.periodEnd || "?"}`}
+        </div>
+        <p className="italic">{digest.summary}</p>
+        {digest.people.length > 0 && <p className="mt-2"><span className="font-bold">People:</span> {digest.people.map(p => p.relation ? `${p.name} (${p.relation})` : p.name).join(", ")}</p>}
+        {digest.places.length > 0 && <p className="mt-1"><span className="font-bold">Places:</span> {digest.places.join(", ")}</p>}
+        {digest.events.length > 0 && (
+            <ul className="mt-2 list-disc pl-5">
+                {digest.events.map((e, i) => <li key={i}>{e.date && <span className="font-bold">{e.date}: </span>}{e.description}</li>)}
+            </ul>
+        )}
+    </div>
+);
+
+// The documents the biographer reads from. They can be added or removed at any point in the book.
+export const Archives: React.FC<ArchivesProps> = ({ active, onError }) => {
+    const [documents, setDocuments] = useState<DocumentInfo[]>([]);
+    const [selected, setSelected] = useState<string | null>(null);
+    const [preview, setPreview] = useState<string | null>(null);
+    const [digest, setDigest] = useState<DocumentDigest | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isUploading, setIsUploading] = useState(false);
+    const [extracting, setExtracting] = useState<string | null>(null);
+    const fileInput = useRef<HTMLInputElement>(null);
+
+    // Refetch whenever the panel is opened, in case another tab changed the archives
+    useEffect(() => {
+        if (!active) return;
+        apiJson<DocumentListResponse>('/api/documents')
+            .then(data => setDocuments(data.documents))
+            .catch(() => onError("Could not load your archives."))
+            .finally(() => setIsLoading(false));
+    }, [active, onError]);
+
+    const open = async (name: string) => {
+        setSelected(name);
+        setPreview(null);
+        setDigest(null);
+        try {
+            const data = await apiJson<DocumentResponse>(documentPath(name));
+            setPreview(data.text);
+            setDigest(data.digest);
+        } catch (e) {
+            onError(`Could not open ${name}: ${(e as Error).message}`);
+        }
+    };
+
+    const upsert = (doc: DocumentInfo) => setDocuments(prev => [...prev.filter(d => d.name !== doc.name), doc].sort((a, b) => a.name.localeCompare(b.name)));
+
+    const add = async (files: File[]) => {
+        setIsUploading(true);
+        for (const file of files) {
+            try {
+                const saved = await uploadDocument(file);
+                if (saved) upsert(saved.document);
+                if (saved && selected === saved.document.name) open(saved.document.name);
+            } catch (e) {
+                onError(`Could not add ${file.name}: ${(e as Error).message}`);
+            }
+        }
+        setIsUploading(false);
+    };
+
+    const reextract = async (name: string) => {
+        setExtracting(name);
+        try {
+            const saved = await apiJson<DocumentUploadResponse>(`${documentPath(name)}/extract`, 'POST');
+            upsert(saved.document);
+            if (selected === name) open(name);
+        } catch (e) {
+            onError(`Could not re-read ${name}: ${(e as Error).message}`);
+        } finally {
+            setExtracting(null);
+        }
+    };
+
+    const remove = async (name: string) => {
+        if (!confirm(`Remove ${name} from your archives? The biographer will stop using it.`)) return;
+        try {
+            await apiJson<SuccessResponse>(documentPath(name), 'DELETE');
+            setDocuments(prev => prev.filter(d => d.name !== name));
+            if (selected === name) { setSelected(null); setPreview(null); setDigest(null); }
+        } catch (e) {
+            onError(`Could not remove ${name}: ${(e as Error).message}`);
+        }
+    };
+
+    return (
+        <div className="w-full h-full flex">
+            <div className="w-80 shrink-0 flex flex-col bg-[#f4ecd8] border-r border-[#2c1810]/10">
+                <div className="px-5 pt-5 pb-3 flex items-center justify-between">
+                    <span className="text-[10px] font-sans font-bold uppercase tracking-[0.25em] text-stone-500">The Archives</span>
+                    <button
+                        onClick={() => fileInput.current?.click()}
+                        disabled={isUploading}
+                        className="flex items-center gap-1 text-[10px] font-sans font-bold uppercase tracking-wider text-orange-800 disabled:opacity-40"
+                    >
+                        {isUploading ? <Loader2 size={12} className="animate-spin" /> : <Plus size={12} />} Add Files
+                    </button>
+                    <input
+                        ref={fileInput}
+                        type="file"
+                        multiple
+                        accept={DOCUMENT_ACCEPT}
+                        className="hidden"
+                        onChange={(e) => { if (e.target.files) add(Array.from(e.target.files)); e.target.value = ""; }}
+                    />
+                </div>
+
+                <div className="flex-1 overflow-y-auto custom-scrollbar pb-5">
+                    {isLoading && <Loader2 size={16} className="mx-5 animate-spin text-stone-400" />}
+                    {!isLoading && documents.length === 0 && (
+                        <p className="px-5 text-sm font-serif italic text-stone-500">No documents yet. Add resumes, journals or letters for the biographer to read.</p>
+                    )}
+                    {documents.map(doc => (
+                        <div
+                            key={doc.name}
+                            className={cn(
+                                "group px-5 py-3 border-l-2 cursor-pointer transition-colors",
+                                doc.name === selected ? "border-orange-700 bg-white/40" : "border-transparent hover:bg-white/20"
+                            )}
+                            onClick={() => open(doc.name)}
+                        >
+                            <div className="flex items-center gap-2 font-serif font-bold text-[#2c1810]">
+                                <FileText size={14} className="shrink-0 text-orange-700" />
+                                <span className="truncate">{doc.name}</span>
+                            </div>
+                            <div className="flex items-center gap-3 mt-1 text-[10px] font-sans uppercase tracking-widest text-stone-500">
+                                <span>{formatSize(doc.size)}</span>
+                                {doc.pageCount !== null && <span>{doc.pageCount} {doc.pageCount === 1 ? "page" : "pages"}</span>}
+                                <span>{new Date(doc.uploadedAt).toLocaleDateString()}</span>
+                                {doc.hasOriginal && (
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); reextract(doc.name); }}
+                                        disabled={extracting !== null}
+                                        className="ml-auto opacity-0 group-hover:opacity-100 text-stone-400 hover:text-orange-800"
+                                        title="Read the original file again"
+                                    >
+                                        <RefreshCw size={12} className={cn(extracting === doc.name && "animate-spin opacity-100")} />
+                                    </button>
+                                )}
+                                <button
+                                    onClick={(e) => { e.stopPropagation(); remove(doc.name); }}
+                                    className={cn("opacity-0 group-hover:opacity-100 text-stone-400 hover:text-red-700", !doc.hasOriginal && "ml-auto")}
+                                    title="Remove document"
+                                >
+                                    <Trash2 size={12} />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto custom-scrollbar p-10 font-serif text-sm leading-relaxed text-[#2c1810]/90 whitespace-pre-wrap">
+                {!selected && <p className="italic text-stone-500">Select a document to see what the biographer reads.</p>}
+                {selected && preview === null && <Loader2 size={16} className="animate-spin text-stone-400" />}
+                {digest && <DigestCard digest={digest} />}
+                {preview}
+            </div>
+        </div>
+    );
+};
@@ -1,17 +1,36 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import Markdown from 'react-markdown';
-import { Bookmark, ChevronLeft } from 'lucide-react';
+import { Bookmark, ChevronLeft, PenLine } from 'lucide-react';
 import { cn } from '../utils/cn';
+import { ManuscriptEditor, type ManuscriptChapter } from './ManuscriptEditor';
+import { PassageRewriter, type PassageSelection, type PassageSuggestion } from './PassageRewriter';
+import type { ChapterVersion } from './VersionHistory';
 
 interface BookCanvasProps {
     content: string;
     chapterTitle: string;
     visible: boolean;
     isGenerating?: boolean; 
+    // Editing is only offered when a save handler is wired up
+    chapters?: ManuscriptChapter[];
+    onSaveChapter?: (chapterIndex: number, content: string, baseContent: string) => void;
+    versions?: { chapterIndex: number; versions: ChapterVersion[] } | null;
+    onLoadVersions?: (chapterIndex: number) => void;
+    onRestoreVersion?: (versionId: string) => void;
+    // Select-and-rewrite is only offered when these are wired up
+    passageSuggestion?: PassageSuggestion | null;
+    onRewritePassage?: (chapterIndex: number, passage: string, instruction: string) => void;
+    onResolvePassage?: (accept: boolean) => void;
 }
 
-export const BookCanvas: React.FC<BookCanvasProps> = ({ content, chapterTitle, visible, isGenerating }) => {
+// Rendered text has no markdown markers or paragraph breaks, so compare on a flattened form
+const flatten = (text: string) => text.replace(/[#*_>`]/g, '').replace(/\s+/g, ' ').trim();
+
+export const BookCanvas: React.FC<BookCanvasProps> = ({ content, chapterTitle, visible, isGenerating, chapters = [], onSaveChapter, versions = null, onLoadVersions, onRestoreVersion, passageSuggestion = null, onRewritePassage, onResolvePassage }) => {
+    const [isEditing, setIsEditing] = useState(false);
+    const [selection, setSelection] = useState<PassageSelection | null>(null);
+
     // Content State
     const [pages, setPages] = useState<string[]>([]);
     
@@ -197,15 +216,76 @@ export const BookCanvas: React.FC<BookCanvasProps> = ({ content, chapterTitle, v
         exit: { opacity: 0, transition: { duration: 0 } }
     };
 
+    const handleTextSelect = () => {
+        if (!onRewritePassage || isGenerating || passageSuggestion) return;
+        const sel = window.getSelection();
+        const passage = sel?.toString().trim() || "";
+        if (!sel || sel.rangeCount === 0 || passage.length < 3) {
+            setSelection(null);
+            return;
+        }
+        const chapter = chapters.find(c => flatten(c.content).includes(flatten(passage)));
+        if (!chapter) {
+            setSelection(null);
+            return;
+        }
+        const rect = sel.getRangeAt(0).getBoundingClientRect();
+        setSelection({
+            chapterIndex: chapter.index,
+            passage,
+            top: Math.min(rect.bottom + 8, window.innerHeight - 260),
+            left: Math.max(8, Math.min(rect.left, window.innerWidth - 380))
+        });
+    };
+
+    const resolvePassage = (accept: boolean) => {
+        if (passageSuggestion) onResolvePassage?.(accept);
+        setSelection(null);
+        window.getSelection()?.removeAllRanges();
+    };
+
     if (!visible) return null;
 
+    if (isEditing && onSaveChapter) {
+        return (
+            <ManuscriptEditor 
+                chapters={chapters} 
+                locked={!!isGenerating} 
+                onSave={onSaveChapter} 
+                onClose={() => setIsEditing(false)} 
+                versions={versions}
+                onLoadVersions={onLoadVersions}
+                onRestoreVersion={onRestoreVersion}
+            />
+        );
+    }
+
     return (
         <motion.div
             initial={{ y: 50, opacity: 0 }}
             animate={{ y: 0, opacity: 1 }}
             transition={{ duration: 0.8, ease: "easeOut" }}
             className="relative w-full h-[85vh] perspective-[2500px] flex items-center justify-center overflow-visible"
+            onMouseUp={handleTextSelect}
         >
+            {selection && onRewritePassage && (
+                <PassageRewriter 
+                    selection={selection} 
+                    suggestion={passageSuggestion} 
+                    onRequest={(instruction) => onRewritePassage(selection.chapterIndex, selection.passage, instruction)} 
+                    onAccept={() => resolvePassage(true)} 
+                    onReject={() => resolvePassage(false)} 
+                />
+            )}
+            {onSaveChapter && chapters.length > 0 && (
+                <button 
+                    onClick={() => setIsEditing(true)}
+                    className="absolute top-0 right-0 z-[60] flex items-center gap-2 px-4 py-2 rounded-full bg-black/40 backdrop-blur text-white/70 hover:text-white border border-white/10 text-xs font-bold uppercase tracking-wider transition-colors"
+                    title="Edit the manuscript"
+                >
+                    <PenLine size={14} /> Edit
+                </button>
+            )}
             {/* 
               === THE BOOK ASSEMBLY === 
               Logic: The container is 480px wide (Single Page width).
@@ -1,43 +1,20 @@
 import React, { useState } from 'react';
-import * as pdfjsLib from 'pdfjs-dist';
-import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
-import { API_BASE_URL } from '../utils/api';
+import { DOCUMENT_ACCEPT, uploadDocument } from '../utils/api';
 import { FileText, Upload, CheckCircle } from 'lucide-react';
 
-pdfjsLib.GlobalWorkerOptions.workerSrc = workerUrl;
-
 interface DocumentUploadProps {
-    userId: string;
     onUploadComplete: () => void;
 }
 
-export const DocumentUpload: React.FC<DocumentUploadProps> = ({ userId, onUploadComplete }) => {
+export const DocumentUpload: React.FC<DocumentUploadProps> = ({ onUploadComplete }) => {
     const [uploading, setUploading] = useState(false);
     const [files, setFiles] = useState<File[]>([]);
 
-    const extractText = async (file: File): Promise<string> => {
-        const arrayBuffer = await file.arrayBuffer();
-        const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-        let fullText = '';
-        for (let i = 1; i <= pdf.numPages; i++) {
-            const page = await pdf.getPage(i);
-            const textContent = await page.getTextContent();
-            const pageText = textContent.items.map((item: any) => item.str).join(' ');
-            fullText += pageText + '\n';
-        }
-        return fullText;
-    };
-
     const handleUpload = async () => {
         setUploading(true);
         try {
             for (const file of files) {
-                const text = await extractText(file);
-                await fetch(`${API_BASE_URL}/api/documents`, {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({ userId, filename: file.name, text })
-                });
+                await uploadDocument(file);
             }
             onUploadComplete();
         } catch (e) {
@@ -73,7 +50,7 @@ export const DocumentUpload: React.FC<DocumentUploadProps> = ({ userId, onUpload
                         <input
                             type="file"
                             multiple
-                            accept=".pdf"
+                            accept={DOCUMENT_ACCEPT}
                             onChange={onFileChange}
                             className="hidden"
                             id="file-input-visible"
@@ -82,7 +59,7 @@ export const DocumentUpload: React.FC<DocumentUploadProps> = ({ userId, onUpload
                         {files.length === 0 ? (
                             <div className="flex flex-col items-center gap-3 text-stone-400 group-hover:text-accent">
                                 <Upload size={32} />
-                                <span className="text-sm font-medium uppercase tracking-wider">Drop PDFs here</span>
+                                <span className="text-sm font-medium uppercase tracking-wider">Drop PDF, Word, text or EPUB files</span>
                             </div>
                         ) : (
                             <div className="flex flex-col items-center gap-3 text-wood-dark">
@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import { MapPin, Plus, Trash2, Save, Loader2 } from 'lucide-react';
+import { MapSelector } from './MapSelector';
+import { apiJson, type Location, type LocationListResponse, type LocationRequest, type LocationResponse, type SuccessResponse } from '../utils/api';
+
+export type Residence = Location;
+
+// A place picked on the map that hasn't been saved yet
+type Draft = Omit<Residence, 'id'>;
+
+interface LifeTimelineProps {
+    userId: string;
+    active: boolean;
+    onError: (message: string) => void;
+}
+
+const sortByStart = (list: Residence[]) => [...list].sort((a, b) => {
+    if (!a.date_start) return 1;
+    if (!b.date_start) return -1;
+    return a.date_start.localeCompare(b.date_start);
+});
+
+// Where the subject lived and when. The biographer reads this timeline as background for every chapter.
+export const LifeTimeline: React.FC<LifeTimelineProps> = ({ userId, active, onError }) => {
+    const [residences, setResidences] = useState<Residence[]>([]);
+    const [draft, setDraft] = useState<Draft | null>(null);
+    const [dirty, setDirty] = useState<Set<string>>(new Set());
+    const [isLoading, setIsLoading] = useState(true);
+
+    const endpoint = `/api/users/${userId}/locations`;
+
+    useEffect(() => {
+        if (!userId) return;
+        apiJson<LocationListResponse>(endpoint)
+            .then(data => setResidences(sortByStart(data.locations)))
+            .catch(() => onError("Could not load your timeline."))
+            .finally(() => setIsLoading(false));
+    }, [userId, endpoint, onError]);
+
+    const send = async (url: string, method: string, entry: Draft) => {
+        const data = await apiJson<LocationResponse, LocationRequest>(url, method, { lat: entry.lat, lng: entry.lng, label: entry.label, dateStart: entry.date_start, dateEnd: entry.date_end });
+        return data.location;
+    };
+
+    const addDraft = async () => {
+        if (!draft) return;
+        try {
+            const saved = await send(endpoint, 'POST', draft);
+            setResidences(prev => sortByStart([...prev, saved]));
+            setDraft(null);
+        } catch (e) {
+            onError(`Could not add place: ${(e as Error).message}`);
+        }
+    };
+
+    const edit = (id: string, patch: Partial<Residence>) => {
+        setResidences(prev => prev.map(r => r.id === id ? { ...r, ...patch } : r));
+        setDirty(prev => new Set(prev).add(id));
+    };
+
+    const save = async (residence: Residence) => {
+        try {
+            const saved = await send(`${endpoint}/${residence.id}`, 'PUT', residence);
+            setResidences(prev => sortByStart(prev.map(r => r.id === saved.id ? saved : r)));
+            setDirty(prev => { const next = new Set(prev); next.delete(residence.id); return next; });
+        } catch (e) {
+            onError(`Could not save ${residence.label}: ${(e as Error).message}`);
+        }
+    };
+
+    const remove = async (residence: Residence) => {
+        if (!confirm(`Remove ${residence.label} from your timeline?`)) return;
+        try {
+            await apiJson<SuccessResponse>(`${endpoint}/${residence.id}`, 'DELETE');
+        } catch {
+            return onError(`Could not remove ${residence.label}.`);
+        }
+        setResidences(prev => prev.filter(r => r.id !== residence.id));
+    };
+
+    return (
+        <div className="w-full h-full flex">
+            <div className="w-80 shrink-0 flex flex-col bg-[#f4ecd8] border-r border-[#2c1810]/10">
+                <div className="px-5 pt-5 pb-3 text-[10px] font-sans font-bold uppercase tracking-[0.25em] text-stone-500">Where I've lived</div>
+
+                <div className="flex-1 overflow-y-auto custom-scrollbar px-5 space-y-4 pb-5">
+                    {isLoading && <Loader2 size={16} className="animate-spin text-stone-400" />}
+                    {!isLoading && residences.length === 0 && !draft && (
+                        <p className="text-sm font-serif italic text-stone-500">Click the map to add the places you have lived.</p>
+                    )}
+                    {residences.map(r => (
+                        <div key={r.id} className="border-l-2 border-orange-700/60 pl-3">
+                            <input
+                                value={r.label}
+                                onChange={(e) => edit(r.id, { label: e.target.value })}
+                                className="w-full bg-transparent font-serif font-bold text-[#2c1810] focus:outline-none"
+                            />
+                            <DateRange value={r} onChange={(patch) => edit(r.id, patch)} />
+                            <div className="flex gap-3 mt-1">
+                                {dirty.has(r.id) && (
+                                    <button onClick={() => save(r)} className="flex items-center gap-1 text-[10px] font-sans font-bold uppercase tracking-wider text-orange-800">
+                                        <Save size={12} /> Save
+                                    </button>
+                                )}
+                                <button onClick={() => remove(r)} className="flex items-center gap-1 text-[10px] font-sans font-bold uppercase tracking-wider text-stone-400 hover:text-red-700">
+                                    <Trash2 size={12} /> Remove
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                {draft && (
+                    <div className="border-t border-[#2c1810]/10 p-5 bg-white/40">
+                        <div className="flex items-center gap-2 mb-2 text-sm font-serif font-bold text-[#2c1810]">
+                            <MapPin size={14} className="text-orange-700" />
+                            <input
+                                value={draft.label}
+                                onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                                className="flex-1 bg-transparent focus:outline-none"
+                            />
+                        </div>
+                        <DateRange value={draft} onChange={(patch) => setDraft({ ...draft, ...patch })} />
+                        <div className="flex justify-end gap-3 mt-3">
+                            <button onClick={() => setDraft(null)} className="text-[10px] font-sans font-bold uppercase tracking-wider text-stone-500">Cancel</button>
+                            <button onClick={addDraft} className="flex items-center gap-1 px-3 py-1.5 bg-[#2c1810] text-orange-500 rounded-sm text-[10px] font-sans font-bold uppercase tracking-wider">
+                                <Plus size={12} /> Add to timeline
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            <MapSelector
+                onLocationSelect={(lat, lng, placeName) => setDraft({ lat, lng, label: placeName || "", date_start: null, date_end: null })}
+                active={active}
+                className="flex-1 h-full rounded-none border-0"
+            />
+        </div>
+    );
+};
+
+const DateRange: React.FC<{ value: Pick<Residence, 'date_start' | 'date_end'>; onChange: (patch: Partial<Residence>) => void }> = ({ value, onChange }) => (
+    <div className="flex items-center gap-2 text-xs font-sans text-stone-600">
+        <input
+            value={value.date_start || ""}
+            onChange={(e) => onChange({ date_start: e.target.value || null })}
+            placeholder="From (e.g. 1994)"
+            className="w-24 bg-transparent border-b border-[#2c1810]/20 focus:outline-none focus:border-orange-700"
+        />
+        <span>–</span>
+        <input
+            value={value.date_end || ""}
+            onChange={(e) => onChange({ date_end: e.target.value || null })}
+            placeholder="To (or now)"
+            className="w-24 bg-transparent border-b border-[#2c1810]/20 focus:outline-none focus:border-orange-700"
+        />
+    </div>
+);
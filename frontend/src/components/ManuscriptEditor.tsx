@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Save, X, AlertTriangle, History } from 'lucide-react';
+import { cn } from '../utils/cn';
+import { VersionHistory, type ChapterVersion } from './VersionHistory';
+
+export interface ManuscriptChapter {
+    index: number;
+    title: string;
+    content: string;
+    status: 'completed' | 'draft';
+}
+
+interface ManuscriptEditorProps {
+    chapters: ManuscriptChapter[];
+    locked: boolean; // AI is writing, the working draft can't be touched
+    onSave: (chapterIndex: number, content: string, baseContent: string) => void;
+    onClose: () => void;
+    // Version history is only offered when these are wired up
+    versions?: { chapterIndex: number; versions: ChapterVersion[] } | null;
+    onLoadVersions?: (chapterIndex: number) => void;
+    onRestoreVersion?: (versionId: string) => void;
+}
+
+export const ManuscriptEditor: React.FC<ManuscriptEditorProps> = ({ chapters, locked, onSave, onClose, versions, onLoadVersions, onRestoreVersion }) => {
+    const [selected, setSelected] = useState<number | null>(chapters[chapters.length - 1]?.index ?? null);
+    // Text the user started from, kept so the server can detect edits made underneath them
+    const [base, setBase] = useState<string>(chapters[chapters.length - 1]?.content ?? "");
+    const [text, setText] = useState<string>(base);
+    const [showHistory, setShowHistory] = useState(false);
+
+    const chapter = chapters.find(c => c.index === selected);
+    const isDirty = text !== base;
+    const changedElsewhere = !!chapter && chapter.content !== base;
+    const isLocked = locked && chapter?.status === 'draft';
+
+    const selectChapter = (index: number) => {
+        if (isDirty && !confirm("Discard your unsaved changes to this chapter?")) return;
+        const next = chapters.find(c => c.index === index);
+        setSelected(index);
+        setBase(next?.content ?? "");
+        setText(next?.content ?? "");
+        if (showHistory) onLoadVersions?.(index);
+    };
+
+    const openHistory = () => {
+        if (!chapter || !onLoadVersions) return;
+        onLoadVersions(chapter.index);
+        setShowHistory(true);
+    };
+
+    const restore = (versionId: string) => {
+        if (isDirty && !confirm("Discard your unsaved changes and restore this version?")) return;
+        onRestoreVersion?.(versionId);
+        setShowHistory(false);
+    };
+
+    const reload = () => {
+        if (!chapter) return;
+        setBase(chapter.content);
+        setText(chapter.content);
+    };
+
+    const save = () => {
+        if (!chapter || !isDirty) return;
+        onSave(chapter.index, text, base);
+        setBase(text);
+    };
+
+    return (
+        <motion.div
+            initial={{ y: 30, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            transition={{ duration: 0.5, ease: "easeOut" }}
+            className="relative w-full max-w-[860px] h-[80vh] flex bg-[#f4ecd8] rounded-sm shadow-2xl overflow-hidden"
+        >
+            <div className="absolute inset-0 opacity-[0.06] bg-[url('https://www.transparenttextures.com/patterns/cream-paper.png')] mix-blend-multiply pointer-events-none"></div>
+
+            {/* Chapter list */}
+            <div className="relative w-56 shrink-0 border-r border-[#2c1810]/10 bg-[#ebe2cc]/60 overflow-y-auto custom-scrollbar">
+                <div className="px-5 pt-6 pb-3 text-[10px] font-sans font-bold uppercase tracking-[0.25em] text-stone-500">Chapters</div>
+                {chapters.length === 0 && (
+                    <p className="px-5 text-sm font-serif italic text-stone-500">Nothing written yet.</p>
+                )}
+                {chapters.map(c => (
+                    <button
+                        key={c.index}
+                        onClick={() => selectChapter(c.index)}
+                        className={cn(
+                            "w-full text-left px-5 py-3 border-l-2 transition-colors",
+                            c.index === selected ? "border-orange-700 bg-white/40" : "border-transparent hover:bg-white/20"
+                        )}
+                    >
+                        <span className="block text-[10px] font-sans uppercase tracking-widest text-stone-500">
+                            Chapter {c.index}{c.status === 'draft' ? " • Draft" : ""}
+                        </span>
+                        <span className="block font-serif font-bold text-[#2c1810] leading-tight">{c.title}</span>
+                    </button>
+                ))}
+            </div>
+
+            {/* Editor */}
+            <div className="relative flex-1 flex flex-col min-w-0">
+                <div className="flex items-center justify-between px-8 py-4 border-b border-[#2c1810]/10">
+                    <span className="font-serif italic text-stone-600">
+                        {chapter ? `Editing Chapter ${chapter.index}` : "Select a chapter"}
+                    </span>
+                    <div className="flex items-center gap-3">
+                        {onLoadVersions && onRestoreVersion && !showHistory && (
+                            <button onClick={openHistory} disabled={!chapter} className="flex items-center gap-1 text-[10px] font-sans font-bold uppercase tracking-wider text-stone-500 hover:text-[#2c1810] disabled:opacity-40">
+                                <History size={14} /> History
+                            </button>
+                        )}
+                        <button onClick={onClose} className="flex items-center gap-1 text-[10px] font-sans font-bold uppercase tracking-wider text-stone-500 hover:text-[#2c1810]">
+                            <X size={14} /> Close
+                        </button>
+                        <button
+                            onClick={save}
+                            disabled={!chapter || !isDirty || isLocked}
+                            className="flex items-center gap-1 px-4 py-2 bg-[#2c1810] text-orange-500 rounded-sm text-[10px] font-sans font-bold uppercase tracking-wider disabled:opacity-40"
+                        >
+                            <Save size={14} /> Save
+                        </button>
+                    </div>
+                </div>
+
+                {(changedElsewhere || isLocked) && (
+                    <div className="flex items-center gap-3 px-8 py-2 bg-orange-900/10 text-orange-900 text-xs font-sans">
+                        <AlertTriangle size={14} />
+                        {isLocked ? (
+                            <span>The biographer is still writing this chapter.</span>
+                        ) : (
+                            <>
+                                <span>This chapter was changed elsewhere.</span>
+                                <button onClick={reload} className="font-bold underline">Load latest</button>
+                            </>
+                        )}
+                    </div>
+                )}
+
+                {showHistory && chapter ? (
+                    <VersionHistory
+                        key={`${chapter.index}-${versions?.versions.length ?? 0}`}
+                        chapterIndex={chapter.index}
+                        versions={versions?.chapterIndex === chapter.index ? versions.versions : []}
+                        locked={isLocked}
+                        onRestore={restore}
+                        onClose={() => setShowHistory(false)}
+                    />
+                ) : (
+                    <textarea
+                        value={text}
+                        onChange={(e) => setText(e.target.value)}
+                        disabled={!chapter || isLocked}
+                        className="flex-1 w-full bg-transparent p-10 font-serif text-[1.05rem] leading-relaxed text-[#2c1810]/90 resize-none focus:outline-none custom-scrollbar disabled:opacity-60"
+                    />
+                )}
+            </div>
+        </motion.div>
+    );
+};
@@ -1,11 +1,58 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ChevronRight, ChevronLeft, Plus } from 'lucide-react';
+import { ChevronRight, ChevronLeft, Plus, MessageSquare, Wand2, PenLine, Users, X, Search, Trash2, GripVertical, Undo2 } from 'lucide-react';
 import { cn } from '../utils/cn';
+import { OutlineEditor, type OutlineEdit } from './OutlineEditor';
+import type { NoteItem } from '../utils/notes';
 
-interface NoteItem {
+export type { NoteItem };
+
+// Changes the notepad sends, one note at a time. Notes are placed after another note (null for the top).
+export type NoteOp =
+    | { type: 'add_note'; id: string; content: string; tags?: string[]; afterId?: string | null }
+    | { type: 'edit_note'; id: string; content?: string; tags?: string[]; baseContent?: string } // baseContent: the text the edit started from
+    | { type: 'delete_note'; id: string }
+    | { type: 'move_note'; id: string; afterId: string | null };
+
+type NoteSourceFilter = 'all' | NoteItem['source'];
+type NoteGrouping = 'none' | 'source' | 'tag';
+
+// A note as placed on the pad, under the heading of its group
+interface NoteRow {
+    note: NoteItem;
+    group: string | null;
+}
+
+// Sort key and heading of each group a note belongs to. A note with several tags is shown under each of them.
+const noteGroups = (note: NoteItem, grouping: NoteGrouping): [string, string][] => {
+    switch (grouping) {
+        case 'source': return [note.source === 'ai' ? ["0", "From the interviewer"] : ["1", "Your own"]];
+        case 'tag': return note.tags.length ? note.tags.map(tag => [`0${tag}`, `#${tag}`]) : [["1", "Untagged"]];
+        default: return [["", ""]];
+    }
+};
+
+const arrangeNotes = (notes: NoteItem[], source: NoteSourceFilter, tag: string | null, grouping: NoteGrouping): NoteRow[] => {
+    const shown = notes.filter(n => (source === 'all' || n.source === source) && (!tag || n.tags.includes(tag)));
+    if (grouping === 'none') return shown.map(note => ({ note, group: null }));
+    return shown
+        .flatMap(note => noteGroups(note, grouping).map(([key, group]) => ({ key, note, group })))
+        .sort((a, b) => a.key.localeCompare(b.key))
+        .map(({ note, group }) => ({ note, group }));
+};
+
+const formatNoteTime = (time: number) => new Date(time).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Someone in the registry the interviewer keeps (see backend/src/people.ts)
+export interface Person {
     id: string;
-    content: string;
+    name: string;
+    relationship: string | null;
+    aliases: string[];
+    firstBookId: string | null;
+    firstChapter: number | null;
+    keyFacts: string[];
+    documents: string[];
 }
 
 interface Chapter {
@@ -16,20 +63,68 @@ interface Chapter {
 
 interface NotepadProps {
     notes: NoteItem[];
+    messages: { id?: string; content: string }[];
+    archivedNotes: NoteItem[];
+    onSearchNotes: (query: string) => void;
+    people: Person[];
+    bookId: string;
     outline: { title: string; chapters: Chapter[] } | null;
     visible: boolean;
-    onUpdateNote: (updatedNotes: NoteItem[]) => void;
+    onNoteOp: (op: NoteOp) => void;
+    canUndo: boolean;
+    onUndo: () => void;
+    currentChapterIndex: number;
+    completedChapters: number[];
+    startedChapters: number[];
+    revisingChapterIndex: number | null;
+    canRevise: boolean;
+    onSwitchChapter: (chapterIndex: number) => void;
+    onReopenChapter: (chapterIndex: number) => void;
+    onRewriteChapter: (chapterIndex: number, instruction: string) => void;
+    canEditOutline: boolean;
+    onUpdateOutline: (chapters: OutlineEdit[]) => void;
+}
+
+interface OutlineControls {
+    canEditOutline: boolean;
+    onUpdateOutline: (chapters: OutlineEdit[]) => void;
+}
+
+interface ChapterRevisionControls {
+    currentChapterIndex: number;
+    completedChapters: number[];
+    startedChapters: number[];
+    revisingChapterIndex: number | null;
+    canRevise: boolean;
+    onSwitchChapter: (chapterIndex: number) => void;
+    onReopenChapter: (chapterIndex: number) => void;
+    onRewriteChapter: (chapterIndex: number, instruction: string) => void;
 }
 
-export const Notepad: React.FC<NotepadProps> = ({ notes, outline, visible, onUpdateNote }) => {
+export const Notepad: React.FC<NotepadProps> = ({ notes, messages, archivedNotes, onSearchNotes, people, bookId, outline, visible, onNoteOp, canUndo, onUndo, ...revisionControls }) => {
     // Page 0 = Outline (Master Plan)
     // Page 1+ = Notes
     const [page, setPage] = useState(0);
     const [direction, setDirection] = useState<'next' | 'prev'>('next');
     const [isFlipping, setIsFlipping] = useState(false);
+    // The people registry and the note archive open over whichever page is showing; flipping closes them
+    const [overlay, setOverlay] = useState<'people' | 'archive' | null>(null);
+    const toggleOverlay = (view: 'people' | 'archive') => setOverlay(overlay === view ? null : view);
+
+    const [sourceFilter, setSourceFilter] = useState<NoteSourceFilter>('all');
+    const [tagFilter, setTagFilter] = useState<string | null>(null);
+    const [grouping, setGrouping] = useState<NoteGrouping>('none');
 
     const NOTES_PER_PAGE = 8;
-    const maxNotePages = Math.ceil(Math.max(notes.length, 1) / NOTES_PER_PAGE);
+    const rows = arrangeNotes(notes, sourceFilter, tagFilter, grouping);
+    const maxNotePages = Math.ceil(Math.max(rows.length, 1) / NOTES_PER_PAGE);
+    const allTags = [...new Set(notes.flatMap(n => n.tags))].sort();
+
+    // Changing what's shown starts the notes over from their first page
+    const refilter = (apply: () => void) => {
+        apply();
+        if (page > 1) setPage(1);
+    };
 
     // Track previous note count to detect additions
     const prevNoteCount = useRef(notes.length);
@@ -40,7 +135,8 @@ export const Notepad: React.FC<NotepadProps> = ({ notes, outline, visible, onUpd
         // If notes length increased
         if (notes.length > prevNoteCount.current) {
             const lastIndex = notes.length - 1;
-            const targetPage = Math.ceil((lastIndex + 1) / NOTES_PER_PAGE);
+            const rowIndex = rows.findIndex(r => r.note.id === notes[lastIndex].id);
+            const targetPage = rowIndex < 0 ? page : Math.floor(rowIndex / NOTES_PER_PAGE) + 1;
             
             // 1. Flip to the page if we aren't there
             if (page !== targetPage && page !== 0) { // Keep 0 if viewing outline unless user wants to see notes? 
@@ -84,21 +180,48 @@ export const Notepad: React.FC<NotepadProps> = ({ notes, outline, visible, onUpd
     }, [notes.length, page]);
 
 
-    const handleNoteEdit = (id: string, newContent: string) => {
-        const updated = notes.map(n => n.id === id ? { ...n, content: newContent } : n);
-        onUpdateNote(updated);
+    const handleNoteEdit = (id: string, newContent: string, baseContent: string) => {
+        if (newContent !== baseContent) onNoteOp({ type: 'edit_note', id, content: newContent, baseContent });
     };
 
+    const handleTagsEdit = (id: string, tags: string[]) => {
+        onNoteOp({ type: 'edit_note', id, tags });
+    };
+
+    // Dropped on a note further down, the dragged one goes after it; further up, it takes its place
+    const handleMove = (id: string, targetId: string) => {
+        const from = notes.findIndex(n => n.id === id);
+        const to = notes.findIndex(n => n.id === targetId);
+        if (from < 0 || to < 0 || from === to) return;
+        onNoteOp({ type: 'move_note', id, afterId: from < to ? targetId : to > 0 ? notes[to - 1].id : null });
+    };
+
+    // Ctrl/Cmd+Z undoes the last note change, unless a note or field is being typed in
+    useEffect(() => {
+        if (!visible) return;
+        const onKey = (e: KeyboardEvent) => {
+            const target = e.target as HTMLElement;
+            if (!(e.metaKey || e.ctrlKey) || e.key !== 'z' || e.shiftKey || target.isContentEditable || /INPUT|TEXTAREA|SELECT/.test(target.tagName)) return;
+            e.preventDefault();
+            if (canUndo) onUndo();
+        };
+        window.addEventListener('keydown', onKey);
+        return () => window.removeEventListener('keydown', onKey);
+    }, [visible, canUndo, onUndo]);
+
     const addNote = () => {
         manualAddTriggered.current = true; // Mark as user action
-        const newNote = { id: crypto.randomUUID(), content: "" };
-        onUpdateNote([...notes, newNote]);
+        // Show everything so the new note isn't filtered out of view
+        setSourceFilter('all');
+        setTagFilter(null);
+        onNoteOp({ type: 'add_note', id: crypto.randomUUID(), content: "" });
     };
 
-    const currentNotes = notes.slice((page - 1) * NOTES_PER_PAGE, page * NOTES_PER_PAGE);
+    const currentRows = rows.slice((page - 1) * NOTES_PER_PAGE, page * NOTES_PER_PAGE);
 
     const flipPage = (newPage: number) => {
         if (newPage < 0 || (newPage > maxNotePages && newPage !== 0)) return;
+        setOverlay(null);
         setDirection(newPage > page ? 'next' : 'prev');
         setIsFlipping(true);
         setPage(newPage);
@@ -153,11 +276,33 @@ export const Notepad: React.FC<NotepadProps> = ({ notes, outline, visible, onUpd
                 <div className="relative z-10 flex items-center gap-3">
                     <div className="w-2 h-2 rounded-full bg-[#d97706] shadow-[0_0_8px_rgba(217,119,6,0.6)]"></div>
                     <span className="text-[#a8a29e] font-sans text-[10px] tracking-[0.25em] font-bold uppercase">
-                        {page === 0 ? "MASTER PLAN" : `FIELD NOTES ${page}`}
+                        {overlay === 'people' ? "WHO'S WHO" : overlay === 'archive' ? "ALL NOTES" : page === 0 ? "MASTER PLAN" : `FIELD NOTES ${page}`}
                     </span>
                 </div>
                 
                 <div className="relative z-10 flex gap-1">
+                    <button
+                        onClick={onUndo}
+                        disabled={!canUndo}
+                        className="p-2 text-[#78716c] hover:text-[#d97706] disabled:opacity-20 transition-colors"
+                        title="Undo last note change"
+                    >
+                        <Undo2 size={18} />
+                    </button>
+                    <button
+                        onClick={() => toggleOverlay('archive')}
+                        className={cn("p-2 transition-colors hover:text-[#d97706]", overlay === 'archive' ? "text-[#d97706]" : "text-[#78716c]")}
+                        title="Search notes from other chapters"
+                    >
+                        <Search size={18} />
+                    </button>
+                    <button
+                        onClick={() => toggleOverlay('people')}
+                        className={cn("p-2 transition-colors hover:text-[#d97706]", overlay === 'people' ? "text-[#d97706]" : "text-[#78716c]")}
+                        title="Who's who"
+                    >
+                        <Users size={18} />
+                    </button>
                     <button 
                         onClick={() => flipPage(page - 1)}
                         disabled={page === 0 || isFlipping}
@@ -184,7 +329,7 @@ export const Notepad: React.FC<NotepadProps> = ({ notes, outline, visible, onUpd
                 {/* ANIMATING PAGE */}
                 <AnimatePresence initial={false} mode='popLayout' custom={direction}>
                     <motion.div
-                        key={page}
+                        key={overlay ?? page}
                         custom={direction}
                         variants={pageVariants}
                         initial="enter"
@@ -199,15 +344,35 @@ export const Notepad: React.FC<NotepadProps> = ({ notes, outline, visible, onUpd
 
                         {/* === SCROLLABLE CONTENT AREA === */}
                         <div className="relative h-full w-full overflow-y-auto custom-scrollbar">
-                            {page === 0 ? (
-                                <OutlineView outline={outline} />
+                            {overlay === 'people' ? (
+                                <PeopleView people={people} bookId={bookId} />
+                            ) : overlay === 'archive' ? (
+                                <ArchiveView notes={archivedNotes} chapters={outline?.chapters || []} onSearch={onSearchNotes} />
+                            ) : page === 0 ? (
+                                <OutlineView outline={outline} {...revisionControls} />
                             ) : (
-                                <NotesView notes={currentNotes} page={page} onEdit={handleNoteEdit} />
+                                <>
+                                    <NotesView
+                                        rows={currentRows}
+                                        messages={messages}
+                                        onEdit={handleNoteEdit}
+                                        onEditTags={handleTagsEdit}
+                                        onDelete={(id) => onNoteOp({ type: 'delete_note', id })}
+                                        // Grouped notes are sorted by group, so their order on the pad isn't theirs to change
+                                        onMove={grouping === 'none' ? handleMove : undefined}
+                                        onTagClick={(tag) => refilter(() => setTagFilter(tag))}
+                                    />
+                                    <NoteFilters
+                                        source={sourceFilter} onSource={(value) => refilter(() => setSourceFilter(value))}
+                                        tags={allTags} tag={tagFilter} onTag={(value) => refilter(() => setTagFilter(value))}
+                                        grouping={grouping} onGrouping={(value) => refilter(() => setGrouping(value))}
+                                    />
+                                </>
                             )}
                         </div>
 
                         {/* Add Button (Only on last page of notes) */}
-                        {page === maxNotePages && page !== 0 && (
+                        {!overlay && page === maxNotePages && page !== 0 && (
                             <button 
                                 onClick={addNote}
                                 className="absolute bottom-6 right-6 p-3 bg-[#1c1917] text-[#d97706] rounded-full shadow-lg hover:scale-110 hover:bg-black transition-all z-50 group border border-[#3a3532]"
@@ -225,40 +390,177 @@ export const Notepad: React.FC<NotepadProps> = ({ notes, outline, visible, onUpd
 
 // --- SUBCOMPONENTS ---
 
-const OutlineView = ({ outline }: { outline: any }) => (
+const OutlineView = ({ outline, currentChapterIndex, completedChapters, startedChapters, revisingChapterIndex, canRevise, onSwitchChapter, onReopenChapter, onRewriteChapter, canEditOutline, onUpdateOutline }: { outline: any } & ChapterRevisionControls & OutlineControls) => {
+    const [rewriting, setRewriting] = useState<number | null>(null);
+    const [instruction, setInstruction] = useState("");
+    const [isEditing, setIsEditing] = useState(false);
+
+    const submitRewrite = (chapterIndex: number) => {
+        if (!instruction.trim()) return;
+        onRewriteChapter(chapterIndex, instruction.trim());
+        setRewriting(null);
+        setInstruction("");
+    };
+
+    return (
     <div className="p-10 pb-20">
         <div className="border-b-2 border-[#1c1917]/10 pb-4 mb-8">
             <h2 className="font-serif text-2xl font-bold text-[#1c1917] tracking-tight">
                 {outline?.title || "Autobiography Structure"}
             </h2>
-            <p className="text-xs font-sans text-[#78716c] mt-2 uppercase tracking-wider">
-                Roadmap • {outline?.chapters?.length || 0} Chapters
-            </p>
+            <div className="flex items-center justify-between mt-2">
+                <p className="text-xs font-sans text-[#78716c] uppercase tracking-wider">
+                    Roadmap • {outline?.chapters?.length || 0} Chapters
+                </p>
+                {outline && canEditOutline && !isEditing && (
+                    <button onClick={() => setIsEditing(true)} className="flex items-center gap-1 text-[10px] font-sans font-bold uppercase tracking-wider text-[#78716c] hover:text-[#d97706]">
+                        <PenLine size={12} /> Edit Plan
+                    </button>
+                )}
+            </div>
         </div>
 
+        {isEditing && outline ? (
+            <OutlineEditor
+                chapters={outline.chapters}
+                lockedChapters={completedChapters}
+                currentChapterIndex={currentChapterIndex}
+                onSave={(chapters) => { onUpdateOutline(chapters); setIsEditing(false); }}
+                onCancel={() => setIsEditing(false)}
+            />
+        ) : (
         <div className="space-y-8">
-            {outline ? outline.chapters.map((chap: any) => (
+            {outline ? outline.chapters.map((chap: Chapter) => {
+                const isCompleted = completedChapters.includes(chap.index);
+                const isCurrent = revisingChapterIndex === null && chap.index === currentChapterIndex;
+                return (
                 <div key={chap.index} className="relative pl-6 border-l-2 border-[#d97706]/30 group hover:border-[#d97706] transition-colors">
                     <span className="absolute -left-[5px] top-0 w-2 h-2 rounded-full bg-[#d97706] opacity-0 group-hover:opacity-100 transition-opacity"></span>
                     <h3 className="font-serif font-bold text-lg text-[#1c1917] mb-1">
                         <span className="text-[#d97706] mr-2">0{chap.index}.</span>
                         {chap.title}
+                        {revisingChapterIndex === chap.index && (
+                            <span className="ml-2 align-middle text-[9px] font-sans uppercase tracking-widest text-[#d97706]">Revising</span>
+                        )}
+                        {isCurrent && (
+                            <span className="ml-2 align-middle text-[9px] font-sans uppercase tracking-widest text-[#d97706]">Current</span>
+                        )}
+                        {startedChapters.includes(chap.index) && (
+                            <span className="ml-2 align-middle text-[9px] font-sans uppercase tracking-widest text-[#a8a29e]">In progress</span>
+                        )}
                     </h3>
                     <p className="font-sans text-[#57534e] leading-relaxed text-sm text-justify">
                         {chap.summary}
                     </p>
+
+                    {!isCompleted && !isCurrent && canRevise && (
+                        <div className="flex gap-4 mt-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                            <button onClick={() => onSwitchChapter(chap.index)} className="flex items-center gap-1 text-[10px] font-sans font-bold uppercase tracking-wider text-[#78716c] hover:text-[#d97706]">
+                                <MessageSquare size={12} /> {startedChapters.includes(chap.index) ? "Resume" : "Start"} Chapter
+                            </button>
+                        </div>
+                    )}
+
+                    {isCompleted && canRevise && rewriting !== chap.index && (
+                        <div className="flex gap-4 mt-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                            <button onClick={() => onReopenChapter(chap.index)} className="flex items-center gap-1 text-[10px] font-sans font-bold uppercase tracking-wider text-[#78716c] hover:text-[#d97706]">
+                                <MessageSquare size={12} /> Re-interview
+                            </button>
+                            <button onClick={() => { setRewriting(chap.index); setInstruction(""); }} className="flex items-center gap-1 text-[10px] font-sans font-bold uppercase tracking-wider text-[#78716c] hover:text-[#d97706]">
+                                <Wand2 size={12} /> Rewrite
+                            </button>
+                        </div>
+                    )}
+
+                    {rewriting === chap.index && (
+                        <div className="mt-3 flex flex-col gap-2">
+                            <textarea
+                                autoFocus
+                                value={instruction}
+                                onChange={(e) => setInstruction(e.target.value)}
+                                placeholder="How should this chapter change? (e.g. 'It was 1994, not 1993')"
+                                className="w-full bg-white/60 border border-[#1c1917]/10 rounded-sm p-2 text-sm font-sans text-[#1c1917] placeholder:text-[#a8a29e] focus:outline-none focus:border-[#d97706]/50 resize-none h-16"
+                            />
+                            <div className="flex justify-end gap-3">
+                                <button onClick={() => setRewriting(null)} className="text-[10px] font-sans font-bold uppercase tracking-wider text-[#78716c] hover:text-[#1c1917]">
+                                    Cancel
+                                </button>
+                                <button onClick={() => submitRewrite(chap.index)} disabled={!instruction.trim()} className="px-3 py-1 bg-[#1c1917] text-[#d97706] rounded-sm text-[10px] font-sans font-bold uppercase tracking-wider disabled:opacity-40">
+                                    Rewrite Chapter
+                                </button>
+                            </div>
+                        </div>
+                    )}
                 </div>
-            )) : (
+                );
+            }) : (
                 <div className="flex flex-col items-center justify-center mt-20 gap-4 opacity-50">
                     <div className="w-6 h-6 border-2 border-[#d97706] border-t-transparent rounded-full animate-spin"></div>
                     <div className="text-xs font-sans uppercase tracking-widest">Loading Outline...</div>
                 </div>
             )}
         </div>
+        )}
+    </div>
+    );
+};
+
+const NoteFilters = ({ source, onSource, tags, tag, onTag, grouping, onGrouping }: {
+    source: NoteSourceFilter, onSource: (source: NoteSourceFilter) => void,
+    tags: string[], tag: string | null, onTag: (tag: string | null) => void,
+    grouping: NoteGrouping, onGrouping: (grouping: NoteGrouping) => void
+}) => (
+    <div className="absolute top-0 inset-x-0 z-20 h-[52px] flex items-center gap-4 pl-16 pr-8 text-[10px] font-sans font-bold uppercase tracking-wider text-[#78716c]">
+        <div className="flex gap-2">
+            {([['all', "All"], ['ai', "Interviewer"], ['user', "Mine"]] as const).map(([value, label]) => (
+                <button key={value} onClick={() => onSource(value)} className={cn("hover:text-[#d97706]", source === value && "text-[#d97706]")}>
+                    {label}
+                </button>
+            ))}
+        </div>
+        {tags.length > 0 && (
+            <select value={tag ?? ""} onChange={(e) => onTag(e.target.value || null)} className="bg-transparent uppercase tracking-wider focus:outline-none cursor-pointer">
+                <option value="">Any tag</option>
+                {tags.map(t => <option key={t} value={t}>#{t}</option>)}
+            </select>
+        )}
+        <select value={grouping} onChange={(e) => onGrouping(e.target.value as NoteGrouping)} className="ml-auto bg-transparent uppercase tracking-wider focus:outline-none cursor-pointer">
+            <option value="none">No grouping</option>
+            <option value="source">By source</option>
+            <option value="tag">By tag</option>
+        </select>
     </div>
 );
 
-const NotesView = ({ notes, page, onEdit }: { notes: NoteItem[], page: number, onEdit: (id: string, val: string) => void }) => (
+const NotesView = ({ rows, messages, onEdit, onEditTags, onDelete, onMove, onTagClick }: {
+    rows: NoteRow[],
+    messages: { id?: string; content: string }[],
+    onEdit: (id: string, val: string, base: string) => void,
+    onEditTags: (id: string, tags: string[]) => void,
+    onDelete: (id: string) => void,
+    onMove?: (id: string, targetId: string) => void,
+    onTagClick: (tag: string) => void
+}) => {
+    const [tagging, setTagging] = useState<string | null>(null);
+    // The note being typed in keeps the text it had on focus, so changes from other tabs don't overwrite the typing
+    const [typing, setTyping] = useState<{ id: string; content: string } | null>(null);
+    const [newTag, setNewTag] = useState("");
+    const [dragging, setDragging] = useState<string | null>(null);
+    const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+    const endDrag = () => {
+        setDragging(null);
+        setDropTarget(null);
+    };
+
+    const addTag = (note: NoteItem) => {
+        const tag = newTag.trim().replace(/^#/, "").toLowerCase();
+        if (tag && !note.tags.includes(tag)) onEditTags(note.id, [...note.tags, tag]);
+        setTagging(null);
+        setNewTag("");
+    };
+
+    return (
     <div className="relative min-h-full">
         {/* Legal Pad Lines */}
         <div
@@ -273,27 +575,198 @@ const NotesView = ({ notes, page, onEdit }: { notes: NoteItem[], page: number, o
         <div className="absolute top-0 bottom-0 left-12 w-[1px] bg-[#ef4444] h-full z-0 opacity-30 pointer-events-none"></div>
 
         <div className="relative z-10 p-8 pl-16 pr-8 pt-16">
+            {rows.length === 0 && (
+                <p className="font-sans text-sm text-[#a8a29e] leading-[40px]">No notes match.</p>
+            )}
             <ul className="list-none space-y-[8px] font-hand text-2xl text-[#1c1917]/90 leading-[40px]">
-                {notes.map((note) => (
+                {rows.map(({ note, group }, i) => {
+                    const message = note.messageId ? messages.find(m => m.id === note.messageId) : undefined;
+                    const taken = [
+                        `Chapter ${note.chapterIndex}`,
+                        note.createdAt ? formatNoteTime(note.createdAt) : null,
+                        note.updatedAt > note.createdAt && note.createdAt ? `edited ${formatNoteTime(note.updatedAt)}` : null
+                    ].filter(Boolean).join(" · ");
+                    return (
+                    <React.Fragment key={`${group ?? ""}:${note.id}`}>
+                    {group !== null && group !== rows[i - 1]?.group && (
+                        <li className="font-sans text-[10px] font-bold uppercase tracking-[0.2em] text-[#d97706]">{group}</li>
+                    )}
                     <motion.li 
-                        key={note.id} 
                         initial={{ opacity: 0, y: 5 }}
-                        animate={{ opacity: 1, y: 0 }}
-                        className="relative group min-h-[40px] flex items-baseline"
+                        animate={{ opacity: dragging === note.id ? 0.4 : 1, y: 0 }}
+                        onDragOver={(e) => { if (dragging && onMove) { e.preventDefault(); setDropTarget(note.id); } }}
+                        onDrop={(e) => { e.preventDefault(); if (dragging && onMove) onMove(dragging, note.id); endDrag(); }}
+                        className={cn("relative group min-h-[40px] flex items-baseline gap-2", dropTarget === note.id && dragging !== note.id && "bg-[#d97706]/10")}
                     >
-                        <span className="absolute -left-5 top-[14px] w-1.5 h-1.5 bg-[#78716c] rounded-full opacity-30 group-hover:opacity-100 transition-opacity"></span>
+                        {onMove ? (
+                            <span
+                                draggable
+                                onDragStart={(e) => { e.dataTransfer.effectAllowed = 'move'; setDragging(note.id); }}
+                                onDragEnd={endDrag}
+                                className="absolute -left-7 top-[10px] text-[#78716c] opacity-30 group-hover:opacity-100 cursor-grab transition-opacity"
+                                title="Drag to reorder"
+                            >
+                                <GripVertical size={14} />
+                            </span>
+                        ) : (
+                            <span className="absolute -left-5 top-[14px] w-1.5 h-1.5 bg-[#78716c] rounded-full opacity-30 group-hover:opacity-100 transition-opacity"></span>
+                        )}
                         <div 
                             id={`note-input-${note.id}`} // Added ID for focusing
                             contentEditable
                             suppressContentEditableWarning
-                            onBlur={(e) => onEdit(note.id, e.currentTarget.textContent || "")}
+                            onFocus={() => setTyping({ id: note.id, content: note.content })}
+                            onBlur={(e) => {
+                                onEdit(note.id, e.currentTarget.textContent || "", typing?.id === note.id ? typing.content : note.content);
+                                setTyping(null);
+                            }}
                             className="w-full outline-none border-none focus:bg-[#d97706]/10 px-1 -ml-1 rounded transition-colors empty:before:content-['...'] empty:before:text-[#a8a29e] empty:before:font-sans empty:before:text-sm"
                         >
-                            {note.content}
+                            {typing?.id === note.id ? typing.content : note.content}
+                        </div>
+                        <div className="shrink-0 flex items-center gap-1 font-sans text-[10px] leading-none text-[#78716c]" title={taken}>
+                            {note.tags.map(tag => (
+                                <span key={tag} className="flex items-center gap-0.5 px-1 py-0.5 rounded-sm bg-[#1c1917]/5">
+                                    <button onClick={() => onTagClick(tag)} className="hover:text-[#d97706]">#{tag}</button>
+                                    <button onClick={() => onEditTags(note.id, note.tags.filter(t => t !== tag))} className="opacity-0 group-hover:opacity-100 hover:text-[#d97706]" title="Remove tag">
+                                        <X size={8} />
+                                    </button>
+                                </span>
+                            ))}
+                            {tagging === note.id ? (
+                                <input
+                                    autoFocus
+                                    value={newTag}
+                                    onChange={(e) => setNewTag(e.target.value)}
+                                    onKeyDown={(e) => { if (e.key === 'Enter') addTag(note); if (e.key === 'Escape') setTagging(null); }}
+                                    onBlur={() => addTag(note)}
+                                    placeholder="tag"
+                                    className="w-16 bg-white/60 border border-[#1c1917]/10 rounded-sm px-1 py-0.5 focus:outline-none focus:border-[#d97706]/50"
+                                />
+                            ) : (
+                                <button onClick={() => { setTagging(note.id); setNewTag(""); }} className="opacity-0 group-hover:opacity-100 hover:text-[#d97706]">+tag</button>
+                            )}
+                            <span className={cn("uppercase tracking-wider", note.source === 'ai' ? "text-[#d97706]" : "text-[#a8a29e]")}>
+                                {note.source === 'ai' ? "AI" : "You"}
+                            </span>
+                            {note.messageId && (
+                                <span title={message ? `From: "${message.content.slice(0, 140)}"` : "From the chat"}>
+                                    <MessageSquare size={10} />
+                                </span>
+                            )}
+                            <button onClick={() => onDelete(note.id)} className="opacity-0 group-hover:opacity-100 hover:text-[#ef4444]" title="Delete note">
+                                <Trash2 size={10} />
+                            </button>
                         </div>
                     </motion.li>
-                ))}
+                    </React.Fragment>
+                    );
+                })}
             </ul>
         </div>
     </div>
-);
\ No newline at end of file
+    );
+};
+
+const PeopleView = ({ people, bookId }: { people: Person[], bookId: string }) => (
+    <div className="p-10 pb-20">
+        <div className="border-b-2 border-[#1c1917]/10 pb-4 mb-8">
+            <h2 className="font-serif text-2xl font-bold text-[#1c1917] tracking-tight">Who's Who</h2>
+            <p className="text-xs font-sans text-[#78716c] uppercase tracking-wider mt-2">
+                {people.length} {people.length === 1 ? "Person" : "People"} in the story
+            </p>
+        </div>
+
+        {people.length === 0 ? (
+            <p className="font-sans text-sm text-[#a8a29e] text-center mt-20">
+                People you mention in the interview will be listed here.
+            </p>
+        ) : (
+            <div className="space-y-6">
+                {people.map(person => (
+                    <div key={person.id} className="relative pl-6 border-l-2 border-[#d97706]/30">
+                        <h3 className="font-serif font-bold text-lg text-[#1c1917]">
+                            {person.name}
+                            {person.relationship && <span className="ml-2 font-sans font-normal text-sm text-[#78716c]">{person.relationship}</span>}
+                        </h3>
+                        {person.aliases.length > 0 && (
+                            <p className="font-sans text-xs text-[#78716c] italic">also "{person.aliases.join('", "')}"</p>
+                        )}
+                        {person.keyFacts.length > 0 && (
+                            <ul className="mt-1 list-disc list-inside font-sans text-sm text-[#57534e] leading-relaxed">
+                                {person.keyFacts.map((fact, i) => <li key={i}>{fact}</li>)}
+                            </ul>
+                        )}
+                        <p className="mt-1 text-[9px] font-sans uppercase tracking-widest text-[#a8a29e]">
+                            {person.firstBookId === null ? "From your documents"
+                                : person.firstBookId === bookId ? (person.firstChapter === null ? "First mentioned in a dropped chapter" : `First mentioned in Ch. ${person.firstChapter}`)
+                                : "First mentioned in another book"}
+                        </p>
+                    </div>
+                ))}
+            </div>
+        )}
+    </div>
+);
+
+// Notes of the other chapters, kept by the server when a chapter is finished, left or revised
+const ArchiveView = ({ notes, chapters, onSearch }: { notes: NoteItem[], chapters: Chapter[], onSearch: (query: string) => void }) => {
+    const [query, setQuery] = useState("");
+
+    // Search as the user types, once they pause
+    useEffect(() => {
+        const timer = setTimeout(() => onSearch(query.trim()), 250);
+        return () => clearTimeout(timer);
+    }, [query, onSearch]);
+
+    const byChapter = [...new Set(notes.map(n => n.chapterIndex))].map(index => ({
+        index,
+        title: chapters.find(c => c.index === index)?.title,
+        notes: notes.filter(n => n.chapterIndex === index)
+    }));
+
+    return (
+    <div className="p-10 pb-20">
+        <div className="border-b-2 border-[#1c1917]/10 pb-4 mb-8">
+            <h2 className="font-serif text-2xl font-bold text-[#1c1917] tracking-tight">Notes From Other Chapters</h2>
+            <div className="mt-3 flex items-center gap-2 bg-white/60 border border-[#1c1917]/10 rounded-sm px-2 focus-within:border-[#d97706]/50">
+                <Search size={14} className="text-[#a8a29e]" />
+                <input
+                    autoFocus
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="Search words or #tags"
+                    className="flex-1 bg-transparent py-1.5 text-sm font-sans text-[#1c1917] placeholder:text-[#a8a29e] focus:outline-none"
+                />
+            </div>
+        </div>
+
+        {byChapter.length === 0 ? (
+            <p className="font-sans text-sm text-[#a8a29e] text-center mt-20">
+                {query.trim() ? "No notes match." : "Notes from finished and parked chapters will be kept here."}
+            </p>
+        ) : (
+            <div className="space-y-8">
+                {byChapter.map(chapter => (
+                    <div key={chapter.index} className="relative pl-6 border-l-2 border-[#d97706]/30">
+                        <h3 className="font-serif font-bold text-lg text-[#1c1917] mb-2">
+                            <span className="text-[#d97706] mr-2">0{chapter.index}.</span>
+                            {chapter.title || `Chapter ${chapter.index}`}
+                        </h3>
+                        <ul className="space-y-2 font-hand text-xl text-[#1c1917]/90">
+                            {chapter.notes.map(note => (
+                                <li key={note.id}>
+                                    {note.content}
+                                    {note.tags.length > 0 && (
+                                        <span className="ml-2 font-sans text-[10px] text-[#78716c]">{note.tags.map(t => `#${t}`).join(" ")}</span>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                ))}
+            </div>
+        )}
+    </div>
+    );
+};
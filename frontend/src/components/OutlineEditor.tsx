@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { ArrowUp, ArrowDown, Combine, Split, Trash2, Plus, Lock } from 'lucide-react';
+
+export interface OutlineChapter {
+    index: number;
+    title: string;
+    summary: string;
+}
+
+// What the server expects back: existing chapters keep their index, new ones have none
+export type OutlineEdit = { index?: number; title: string; summary: string };
+
+interface Row extends OutlineEdit {
+    key: string;
+}
+
+interface OutlineEditorProps {
+    chapters: OutlineChapter[];
+    lockedChapters: number[]; // already written, can't be touched
+    currentChapterIndex: number; // being worked on, can be renamed but stays put
+    onSave: (chapters: OutlineEdit[]) => void;
+    onCancel: () => void;
+}
+
+const joinSummaries = (a: string, b: string) => [a.trim(), b.trim()].filter(Boolean).join(" ");
+
+export const OutlineEditor: React.FC<OutlineEditorProps> = ({ chapters, lockedChapters, currentChapterIndex, onSave, onCancel }) => {
+    const [rows, setRows] = useState<Row[]>(chapters.map(c => ({ ...c, key: String(c.index) })));
+
+    const isLocked = (row?: Row) => row?.index !== undefined && lockedChapters.includes(row.index);
+    const isPinned = (row?: Row) => isLocked(row) || (row?.index !== undefined && row.index === currentChapterIndex);
+    // Written and current chapters keep their positions, so rows can only be added or removed after the last of them
+    const tailStart = rows.reduce((last, row, position) => isPinned(row) ? position + 1 : last, 0);
+    const canMove = (position: number) => position >= 0 && position < rows.length && !isPinned(rows[position]);
+    const isFree = (position: number) => position >= tailStart;
+
+    const update = (position: number, patch: Partial<Row>) => setRows(prev => prev.map((r, i) => i === position ? { ...r, ...patch } : r));
+
+    const move = (position: number, by: number) => setRows(prev => {
+        const target = position + by;
+        if (!canMove(position) || !canMove(target)) return prev;
+        const next = [...prev];
+        [next[position], next[target]] = [next[target], next[position]];
+        return next;
+    });
+
+    const mergeWithNext = (position: number) => setRows(prev => {
+        const [a, b] = [prev[position], prev[position + 1]];
+        if (!b) return prev;
+        const merged = { ...a, summary: joinSummaries(a.summary, b.summary) };
+        return [...prev.slice(0, position), merged, ...prev.slice(position + 2)];
+    });
+
+    const split = (position: number) => setRows(prev => [
+        ...prev.slice(0, position + 1),
+        { key: crypto.randomUUID(), title: `${prev[position].title} (continued)`, summary: "" },
+        ...prev.slice(position + 1)
+    ]);
+
+    const remove = (position: number) => setRows(prev => prev.filter((_, i) => i !== position));
+
+    const add = () => setRows(prev => [...prev, { key: crypto.randomUUID(), title: "New Chapter", summary: "" }]);
+
+    const save = () => onSave(rows.map(({ index, title, summary }) => ({ index, title, summary })));
+
+    const iconButton = "p-1 text-[#a8a29e] hover:text-[#d97706] disabled:opacity-30 disabled:hover:text-[#a8a29e]";
+
+    return (
+        <div className="space-y-6">
+            {rows.map((row, position) => (
+                <div key={row.key} className="relative pl-6 border-l-2 border-[#d97706]/30">
+                    {isLocked(row) ? (
+                        <>
+                            <h3 className="font-serif font-bold text-lg text-[#1c1917]/60 mb-1 flex items-center gap-2">
+                                <span className="text-[#d97706]/60">0{position + 1}.</span> {row.title}
+                                <Lock size={12} className="text-[#a8a29e]" />
+                            </h3>
+                            <p className="font-sans text-[#57534e]/60 text-sm">{row.summary}</p>
+                        </>
+                    ) : (
+                        <>
+                            <div className="flex items-center gap-2 mb-1">
+                                <span className="font-serif font-bold text-lg text-[#d97706]">0{position + 1}.</span>
+                                <input
+                                    value={row.title}
+                                    onChange={(e) => update(position, { title: e.target.value })}
+                                    className="flex-1 bg-white/50 border border-[#1c1917]/10 rounded-sm px-2 py-1 font-serif font-bold text-[#1c1917] focus:outline-none focus:border-[#d97706]/50"
+                                />
+                            </div>
+                            <textarea
+                                value={row.summary}
+                                onChange={(e) => update(position, { summary: e.target.value })}
+                                placeholder="What this chapter covers"
+                                className="w-full bg-white/50 border border-[#1c1917]/10 rounded-sm p-2 text-sm font-sans text-[#57534e] focus:outline-none focus:border-[#d97706]/50 resize-none h-16"
+                            />
+                            {!isPinned(row) ? (
+                                <div className="flex gap-1">
+                                    <button onClick={() => move(position, -1)} disabled={!canMove(position - 1)} className={iconButton} title="Move up"><ArrowUp size={14} /></button>
+                                    <button onClick={() => move(position, 1)} disabled={!canMove(position + 1)} className={iconButton} title="Move down"><ArrowDown size={14} /></button>
+                                    <button onClick={() => mergeWithNext(position)} disabled={!isFree(position) || position === rows.length - 1} className={iconButton} title="Merge with next chapter"><Combine size={14} /></button>
+                                    <button onClick={() => split(position)} disabled={!isFree(position)} className={iconButton} title="Split into two chapters"><Split size={14} /></button>
+                                    <button onClick={() => remove(position)} disabled={!isFree(position)} className={iconButton} title="Delete chapter"><Trash2 size={14} /></button>
+                                </div>
+                            ) : (
+                                <p className="text-[10px] font-sans uppercase tracking-widest text-[#a8a29e]">In progress • can be renamed only</p>
+                            )}
+                        </>
+                    )}
+                </div>
+            ))}
+
+            <button onClick={add} className="flex items-center gap-1 text-[10px] font-sans font-bold uppercase tracking-wider text-[#78716c] hover:text-[#d97706]">
+                <Plus size={12} /> Add chapter
+            </button>
+
+            <div className="flex justify-end gap-3 pt-4 border-t border-[#1c1917]/10">
+                <button onClick={onCancel} className="text-[10px] font-sans font-bold uppercase tracking-wider text-[#78716c] hover:text-[#1c1917]">
+                    Cancel
+                </button>
+                <button onClick={save} disabled={rows.some(r => !r.title.trim())} className="px-3 py-1 bg-[#1c1917] text-[#d97706] rounded-sm text-[10px] font-sans font-bold uppercase tracking-wider disabled:opacity-40">
+                    Save Plan
+                </button>
+            </div>
+        </div>
+    );
+};
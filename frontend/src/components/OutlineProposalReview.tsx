@@ -0,0 +1,70 @@
+import React from 'react';
+import { Check, X, Sparkles } from 'lucide-react';
+import type { OutlineChapter, OutlineEdit } from './OutlineEditor';
+
+export interface OutlineProposal {
+    afterChapter: number;
+    reason: string;
+    chapters: OutlineEdit[]; // whole outline; entries without an index are new
+    fixed: number[]; // written or started chapters the proposal left alone
+}
+
+interface OutlineProposalReviewProps {
+    proposal: OutlineProposal;
+    outline: OutlineChapter[];
+    onResolve: (accept: boolean) => void;
+}
+
+// The biographer's suggested changes to the unwritten chapters, shown against the current plan
+export const OutlineProposalReview: React.FC<OutlineProposalReviewProps> = ({ proposal, outline, onResolve }) => {
+    const isFixed = (index?: number) => index !== undefined && proposal.fixed.includes(index);
+    const kept = new Set(proposal.chapters.map(c => c.index));
+    const dropped = outline.filter(c => !isFixed(c.index) && !kept.has(c.index));
+
+    return (
+        <div className="shrink-0 max-h-[45%] flex flex-col bg-amber-950/60 border-b border-amber-500/20 text-amber-100">
+            <div className="px-6 pt-4 pb-2 flex items-center gap-2 text-[10px] font-bold uppercase tracking-[0.2em] text-amber-500">
+                <Sparkles size={12} /> Suggested plan changes
+            </div>
+            {proposal.reason && <p className="px-6 pb-3 text-sm font-serif italic text-amber-100/80">{proposal.reason}</p>}
+
+            <div className="flex-1 overflow-y-auto custom-scrollbar px-6 space-y-3 text-sm">
+                {proposal.chapters.map((chapter, i) => {
+                    if (isFixed(chapter.index)) return null;
+                    const position = i + 1;
+                    const original = outline.find(c => c.index === chapter.index);
+                    return (
+                        <div key={`${chapter.index ?? "new"}-${i}`} className="border-l-2 border-amber-600/40 pl-3">
+                            <div className="font-serif font-bold">
+                                <span className="text-amber-500 mr-2">{position}.</span>
+                                {original && original.title !== chapter.title && <span className="line-through text-stone-400 mr-2">{original.title}</span>}
+                                {chapter.title}
+                                {!original && <span className="ml-2 text-[9px] font-sans uppercase tracking-widest text-green-400">New</span>}
+                                {original && original.index !== position && <span className="ml-2 text-[9px] font-sans uppercase tracking-widest text-stone-400">Was {original.index}</span>}
+                            </div>
+                            {original && original.summary !== chapter.summary && <p className="text-xs text-stone-400 line-through">{original.summary}</p>}
+                            <p className="text-xs text-amber-100/70">{chapter.summary}</p>
+                        </div>
+                    );
+                })}
+                {dropped.map(chapter => (
+                    <div key={`dropped-${chapter.index}`} className="border-l-2 border-red-500/40 pl-3 opacity-70">
+                        <div className="font-serif font-bold line-through text-stone-400">
+                            <span className="mr-2">{chapter.index}.</span>{chapter.title}
+                        </div>
+                        <span className="text-[9px] font-sans uppercase tracking-widest text-red-400">Dropped</span>
+                    </div>
+                ))}
+            </div>
+
+            <div className="flex justify-end gap-3 px-6 py-3">
+                <button onClick={() => onResolve(false)} className="flex items-center gap-1 px-3 py-1.5 text-[10px] font-bold uppercase tracking-wider text-stone-300 hover:text-white">
+                    <X size={12} /> Keep Current Plan
+                </button>
+                <button onClick={() => onResolve(true)} className="flex items-center gap-1 px-3 py-1.5 rounded-sm bg-amber-700 text-white text-[10px] font-bold uppercase tracking-wider hover:bg-amber-600">
+                    <Check size={12} /> Accept Changes
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { motion } from 'framer-motion';
+import { Check, X, Wand2, Loader2 } from 'lucide-react';
+
+export interface PassageSelection {
+    chapterIndex: number;
+    passage: string;
+    top: number;
+    left: number;
+}
+
+export interface PassageSuggestion {
+    requestId: string;
+    chapterIndex: number;
+    passage: string;
+    replacement: string;
+    status: 'streaming' | 'ready' | 'failed';
+    error?: string;
+}
+
+interface PassageRewriterProps {
+    selection: PassageSelection;
+    suggestion: PassageSuggestion | null;
+    onRequest: (instruction: string) => void;
+    onAccept: () => void;
+    onReject: () => void;
+}
+
+const PRESETS = ["Make this more vivid", "Shorten", "Simplify"];
+
+// Floating card next to a highlighted passage: pick an instruction, then accept or reject the rewrite.
+// Portaled to <body> because the book's 3D perspective would otherwise become the fixed-position container.
+export const PassageRewriter: React.FC<PassageRewriterProps> = ({ selection, suggestion, onRequest, onAccept, onReject }) => {
+    const [instruction, setInstruction] = useState("");
+
+    const submit = (text: string) => {
+        if (!text.trim()) return;
+        onRequest(text.trim());
+        setInstruction("");
+    };
+
+    return createPortal(
+        <motion.div
+            initial={{ opacity: 0, y: 6 }}
+            animate={{ opacity: 1, y: 0 }}
+            onMouseUp={(e) => e.stopPropagation()}
+            className="fixed z-[70] w-[360px] bg-[#1c1917] text-stone-200 rounded-md shadow-2xl border border-white/10 p-4 font-sans"
+            style={{ top: selection.top, left: selection.left }}
+        >
+            {!suggestion ? (
+                <>
+                    <div className="flex items-center gap-2 mb-3 text-[10px] font-bold uppercase tracking-[0.2em] text-amber-500">
+                        <Wand2 size={12} /> Rewrite passage
+                    </div>
+                    <div className="flex flex-wrap gap-2 mb-3">
+                        {PRESETS.map(preset => (
+                            <button key={preset} onClick={() => submit(preset)} className="px-3 py-1 rounded-full bg-white/5 border border-white/10 text-xs hover:bg-amber-700/40 hover:border-amber-600/50 transition-colors">
+                                {preset}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex gap-2">
+                        <input
+                            autoFocus
+                            value={instruction}
+                            onChange={(e) => setInstruction(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter') submit(instruction); if (e.key === 'Escape') onReject(); }}
+                            placeholder="e.g. This isn't accurate, it was 1994"
+                            className="flex-1 bg-black/40 border border-white/10 rounded-sm px-3 py-2 text-xs text-white placeholder:text-white/30 focus:outline-none focus:border-amber-500/50"
+                        />
+                        <button onClick={onReject} className="px-2 text-stone-400 hover:text-white" title="Close">
+                            <X size={16} />
+                        </button>
+                    </div>
+                </>
+            ) : (
+                <>
+                    <p className="text-xs text-stone-500 line-through mb-2 max-h-20 overflow-y-auto custom-scrollbar">{suggestion.passage}</p>
+                    <p className="text-sm font-serif text-amber-100 bg-amber-900/20 border-l-2 border-amber-600 pl-3 py-1 mb-3 max-h-48 overflow-y-auto custom-scrollbar whitespace-pre-wrap">
+                        {suggestion.status === 'failed' ? <span className="text-red-400 font-sans text-xs">{suggestion.error || "Rewrite failed."}</span> : suggestion.replacement || "…"}
+                    </p>
+                    <div className="flex justify-end gap-2">
+                        {suggestion.status === 'streaming' && (
+                            <span className="mr-auto flex items-center gap-2 text-xs text-amber-500"><Loader2 size={12} className="animate-spin" /> Rewriting…</span>
+                        )}
+                        <button onClick={onReject} className="flex items-center gap-1 px-3 py-1.5 text-[10px] font-bold uppercase tracking-wider text-stone-400 hover:text-white">
+                            <X size={12} /> Reject
+                        </button>
+                        <button
+                            onClick={onAccept}
+                            disabled={suggestion.status !== 'ready'}
+                            className="flex items-center gap-1 px-3 py-1.5 rounded-sm bg-amber-700 text-white text-[10px] font-bold uppercase tracking-wider hover:bg-amber-600 disabled:opacity-40"
+                        >
+                            <Check size={12} /> Accept
+                        </button>
+                    </div>
+                </>
+            )}
+        </motion.div>,
+        document.body
+    );
+};
@@ -0,0 +1,99 @@
+import React, { useMemo, useState } from 'react';
+import { History, RotateCcw, X } from 'lucide-react';
+import { cn } from '../utils/cn';
+import { diffWords } from '../utils/diff';
+
+export interface ChapterVersion {
+    id: string;
+    version: number;
+    content: string;
+    source: 'ai' | 'edit' | 'passage' | 'restore';
+    created_at: number;
+}
+
+interface VersionHistoryProps {
+    chapterIndex: number;
+    versions: ChapterVersion[]; // newest first
+    locked: boolean;
+    onRestore: (versionId: string) => void;
+    onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<ChapterVersion['source'], string> = {
+    ai: "Written by biographer",
+    edit: "Your edit",
+    passage: "Passage rewrite",
+    restore: "Restored"
+};
+
+// Browse a chapter's drafts, diff any two of them and bring an old one back as the current text
+export const VersionHistory: React.FC<VersionHistoryProps> = ({ chapterIndex, versions, locked, onRestore, onClose }) => {
+    const [selectedId, setSelectedId] = useState<string | null>(versions[1]?.id ?? versions[0]?.id ?? null);
+    const [compareId, setCompareId] = useState<string | null>(versions[0]?.id ?? null);
+
+    const selected = versions.find(v => v.id === selectedId) ?? versions[1] ?? versions[0];
+    const compare = versions.find(v => v.id === compareId) ?? versions[0];
+    const parts = useMemo(() => selected && compare ? diffWords(compare.content, selected.content) : [], [selected, compare]);
+
+    return (
+        <div className="flex-1 flex min-h-0">
+            <div className="w-48 shrink-0 border-r border-[#2c1810]/10 overflow-y-auto custom-scrollbar">
+                {versions.length === 0 && <p className="p-5 text-sm font-serif italic text-stone-500">No versions saved yet.</p>}
+                {versions.map(v => (
+                    <button
+                        key={v.id}
+                        onClick={() => setSelectedId(v.id)}
+                        className={cn(
+                            "w-full text-left px-4 py-3 border-l-2 transition-colors",
+                            v.id === selected?.id ? "border-orange-700 bg-white/40" : "border-transparent hover:bg-white/20"
+                        )}
+                    >
+                        <span className="block font-serif font-bold text-[#2c1810]">Version {v.version}</span>
+                        <span className="block text-[10px] font-sans uppercase tracking-widest text-stone-500">{SOURCE_LABELS[v.source]}</span>
+                        <span className="block text-[10px] font-sans text-stone-400">{new Date(v.created_at).toLocaleString()}</span>
+                    </button>
+                ))}
+            </div>
+
+            <div className="flex-1 flex flex-col min-w-0">
+                <div className="flex items-center gap-3 px-8 py-3 border-b border-[#2c1810]/10 text-xs font-sans text-stone-600">
+                    <History size={14} />
+                    <span>Chapter {chapterIndex}: version {selected?.version ?? "-"} compared with</span>
+                    <select
+                        value={compare?.id ?? ""}
+                        onChange={(e) => setCompareId(e.target.value)}
+                        className="bg-white/50 border border-[#2c1810]/20 rounded-sm px-2 py-1"
+                    >
+                        {versions.map(v => <option key={v.id} value={v.id}>Version {v.version}</option>)}
+                    </select>
+                    <div className="ml-auto flex items-center gap-3">
+                        <button onClick={onClose} className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider text-stone-500 hover:text-[#2c1810]">
+                            <X size={14} /> Back
+                        </button>
+                        <button
+                            onClick={() => selected && onRestore(selected.id)}
+                            disabled={!selected || locked || selected.id === versions[0]?.id}
+                            className="flex items-center gap-1 px-4 py-2 bg-[#2c1810] text-orange-500 rounded-sm text-[10px] font-bold uppercase tracking-wider disabled:opacity-40"
+                        >
+                            <RotateCcw size={14} /> Restore
+                        </button>
+                    </div>
+                </div>
+
+                <div className="flex-1 overflow-y-auto custom-scrollbar p-10 font-serif text-[1.05rem] leading-relaxed text-[#2c1810]/90 whitespace-pre-wrap">
+                    {parts.map((part, i) => (
+                        <span
+                            key={i}
+                            className={cn(
+                                part.type === 'added' && "bg-green-700/20 text-green-900",
+                                part.type === 'removed' && "bg-red-700/15 text-red-900 line-through"
+                            )}
+                        >
+                            {part.text}
+                        </span>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
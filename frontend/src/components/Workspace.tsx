@@ -1,27 +1,47 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { ChatInterface } from './ChatInterface';
 import { BookCanvas } from './BookCanvas';
-import { Notepad } from './Notepad';
-import { MapSelector } from './MapSelector';
+import { Notepad, type NoteItem, type NoteOp, type Person } from './Notepad';
+import { LifeTimeline } from './LifeTimeline';
+import { Archives } from './Archives';
 import { FinalizeBook } from './FinalizeBook'; 
-import { PenTool, BookOpen, Bug, Map as MapIcon, RefreshCw, ArrowRight, XCircle, CheckCircle2, Download, PlusCircle, Terminal } from 'lucide-react';
+import type { ManuscriptChapter } from './ManuscriptEditor';
+import type { PassageSuggestion } from './PassageRewriter';
+import type { ChapterVersion } from './VersionHistory';
+import type { OutlineEdit } from './OutlineEditor';
+import { OutlineProposalReview, type OutlineProposal } from './OutlineProposalReview';
+import { PenTool, BookOpen, Bug, Map as MapIcon, Archive, RefreshCw, ArrowRight, XCircle, CheckCircle2, Download, PlusCircle, Terminal } from 'lucide-react';
 import { getWsUrl } from '../utils/api';
+import { applyNoteChange } from '../utils/notes';
 
 interface WorkspaceProps {
     sessionId: string;
+    userId: string;
     bookTitle?: string;
 }
 
 interface Message {
+    id?: string;
     role: 'user' | 'assistant';
     content: string;
 }
 
-export const Workspace: React.FC<WorkspaceProps> = ({ sessionId, bookTitle }) => {
-    const [viewMode, setViewMode] = useState<'notepad' | 'map' | 'book' | 'export'>('notepad');
-    const [notes, setNotes] = useState<any[]>([]);
+interface ChapterRevision {
+    chapterIndex: number;
+    instruction: string;
+}
+
+export const Workspace: React.FC<WorkspaceProps> = ({ sessionId, userId, bookTitle }) => {
+    const [viewMode, setViewMode] = useState<'notepad' | 'map' | 'archives' | 'book' | 'export'>('notepad');
+    const [notes, setNotes] = useState<NoteItem[]>([]);
+    const [people, setPeople] = useState<Person[]>([]);
+    const [archivedNotes, setArchivedNotes] = useState<NoteItem[]>([]);
+    const [canUndoNotes, setCanUndoNotes] = useState(false);
     const [outline, setOutline] = useState<any>(null);
     const [manuscript, setManuscript] = useState("");
+    const [chapters, setChapters] = useState<ManuscriptChapter[]>([]);
+    const [versions, setVersions] = useState<{ chapterIndex: number; versions: ChapterVersion[] } | null>(null);
+    const [passageSuggestion, setPassageSuggestion] = useState<PassageSuggestion | null>(null);
     const [messages, setMessages] = useState<Message[]>([]);
     const [connected, setConnected] = useState(false);
     const [mode, setMode] = useState<'interview' | 'writing'>('interview');
@@ -29,6 +49,9 @@ export const Workspace: React.FC<WorkspaceProps> = ({ sessionId, bookTitle }) =>
     const [isAnalyzing, setIsAnalyzing] = useState(false);
     
     const [currentChapterIndex, setCurrentChapterIndex] = useState(1);
+    const [startedChapters, setStartedChapters] = useState<number[]>([]); // parked with an interview in progress
+    const [revision, setRevision] = useState<ChapterRevision | null>(null);
+    const [outlineProposal, setOutlineProposal] = useState<OutlineProposal | null>(null);
     
     const [showExpandInput, setShowExpandInput] = useState(false);
     const [expandQuery, setExpandQuery] = useState("");
@@ -39,6 +62,8 @@ export const Workspace: React.FC<WorkspaceProps> = ({ sessionId, bookTitle }) =>
     const [lastError, setLastError] = useState<string | null>(null);
     
     const ws = useRef<WebSocket | null>(null);
+    // Chapter whose version history is open, refetched when the server records a new version
+    const historyChapter = useRef<number | null>(null);
 
     const logDebug = (msg: string) => {
         console.log(`[App] ${msg}`);
@@ -75,6 +100,7 @@ export const Workspace: React.FC<WorkspaceProps> = ({ sessionId, bookTitle }) =>
                     setIsExpanding(false);
                     setShowExpandInput(false);
                     setShowDebug(true); 
+                    setPassageSuggestion(prev => prev && prev.status === 'streaming' ? { ...prev, status: 'failed', error: data.content } : prev);
                 } 
 
                 if (data.type === 'init') {
@@ -91,7 +117,46 @@ export const Workspace: React.FC<WorkspaceProps> = ({ sessionId, bookTitle }) =>
                 else if (data.type === 'chapter_index_sync') {
                     setCurrentChapterIndex(data.content);
                 }
+                else if (data.type === 'chapter_progress_sync') {
+                    setStartedChapters(data.content);
+                }
+                else if (data.type === 'revision_sync') {
+                    setRevision(data.content);
+                }
+                else if (data.type === 'outline_proposal') {
+                    setOutlineProposal(data.content);
+                }
+                else if (data.type === 'chapters_sync') {
+                    setChapters(data.content);
+                }
+                else if (data.type === 'versions_sync') {
+                    if (data.content.chapterIndex === historyChapter.current) setVersions(data.content);
+                }
+                else if (data.type === 'versions_changed') {
+                    if (data.content.chapterIndex === historyChapter.current) {
+                        socket.send(JSON.stringify({ type: 'list_versions', chapterIndex: data.content.chapterIndex }));
+                    }
+                }
+                else if (data.type === 'passage_chunk') {
+                    setPassageSuggestion(prev => prev && prev.requestId === data.requestId ? { ...prev, replacement: prev.replacement + data.content } : prev);
+                }
+                else if (data.type === 'passage_complete') {
+                    setPassageSuggestion(prev => prev && prev.requestId === data.requestId ? { ...prev, replacement: data.content.replacement, status: 'ready' } : prev);
+                }
+                else if (data.type === 'passage_failed') {
+                    setPassageSuggestion(prev => prev && prev.requestId === data.requestId ? { ...prev, status: 'failed', error: data.content } : prev);
+                }
+                else if (data.type === 'edit_conflict') {
+                    setLastError(`Chapter ${data.content.chapterIndex} was not saved: ${data.content.reason}`);
+                    setChapters(prev => prev.map(c => c.index === data.content.chapterIndex ? { ...c, content: data.content.current } : c));
+                }
                 else if (data.type === 'notes_sync') { setNotes(data.content); }
+                else if (data.type === 'note_change') { setNotes(prev => applyNoteChange(prev, data.content)); }
+                // The note's current text already came in as a note_change; the notepad shows it once the user leaves the note
+                else if (data.type === 'note_conflict') { setLastError(`Your note edit was not saved: ${data.content.reason}`); }
+                else if (data.type === 'notes_undo_sync') { setCanUndoNotes(data.content); }
+                else if (data.type === 'people_sync') { setPeople(data.content); }
+                else if (data.type === 'note_search_results') { setArchivedNotes(data.content); }
                 else if (data.type === 'mode_sync') {
                     setMode(data.content);
                     // === FIX: Auto-switch view based on mode ===
@@ -114,7 +179,7 @@ export const Workspace: React.FC<WorkspaceProps> = ({ sessionId, bookTitle }) =>
                         if (last && last.role === (data.role || 'assistant') && last.content === data.content) {
                             return prev; 
                         }
-                        return [...prev, { role: data.role || 'assistant', content: data.content }];
+                        return [...prev, { id: data.id, role: data.role || 'assistant', content: data.content }];
                     });
                 }
                 else if (data.type === 'draft_chunk') {
@@ -139,22 +204,25 @@ export const Workspace: React.FC<WorkspaceProps> = ({ sessionId, bookTitle }) =>
         return () => { if (socket.readyState === WebSocket.OPEN) socket.close(); ws.current = null; };
     }, [sessionId]);
 
+    const completedChapters = chapters.filter(c => c.status === 'completed').map(c => c.index);
+
     const handleSendMessage = (text: string) => {
         if (!ws.current || ws.current.readyState !== WebSocket.OPEN) return;
-        setMessages(prev => [...prev, { role: 'user', content: text }]);
-        ws.current.send(JSON.stringify({ type: 'message', content: text }));
+        const id = crypto.randomUUID();
+        setMessages(prev => [...prev, { id, role: 'user', content: text }]);
+        ws.current.send(JSON.stringify({ type: 'message', id, content: text }));
     };
 
-    const handleMapSelect = (lat: number, lng: number, placeName?: string) => {
-        if (ws.current?.readyState === WebSocket.OPEN) {
-            ws.current.send(JSON.stringify({ type: 'message', content: `[System: User location: ${placeName}]` }));
-            setMessages(prev => [...prev, { role: 'user', content: `📍 **${placeName}**` }]);
-        }
-    };
-    const handleManualNoteUpdate = (updated: any[]) => {
-        setNotes(updated);
-        if (ws.current?.readyState === WebSocket.OPEN) ws.current.send(JSON.stringify({ type: 'update_notes', content: updated }));
+    const handleSearchNotes = useCallback((query: string) => {
+        if (ws.current?.readyState === WebSocket.OPEN) ws.current.send(JSON.stringify({ type: 'search_notes', query }));
+    }, []);
+
+    const handleNoteOp = (op: NoteOp) => {
+        if (ws.current?.readyState === WebSocket.OPEN) ws.current.send(JSON.stringify(op));
     };
+    const handleUndoNote = useCallback(() => {
+        if (ws.current?.readyState === WebSocket.OPEN) ws.current.send(JSON.stringify({ type: 'undo_note' }));
+    }, []);
     const handleRetry = () => { 
         setLastError(null);
         if(ws.current) { setIsGenerating(true); ws.current.send(JSON.stringify({ type: 'retry_chapter' })); } 
@@ -175,6 +243,88 @@ export const Workspace: React.FC<WorkspaceProps> = ({ sessionId, bookTitle }) =>
         }
     };
 
+    const handleSaveChapter = (chapterIndex: number, content: string, baseContent: string) => {
+        if (ws.current?.readyState !== WebSocket.OPEN) {
+            setLastError("WebSocket not connected");
+            return;
+        }
+        ws.current.send(JSON.stringify({ type: 'edit_chapter', chapterIndex, content, baseContent }));
+    };
+
+    const handleLoadVersions = (chapterIndex: number) => {
+        if (ws.current?.readyState !== WebSocket.OPEN) {
+            setLastError("WebSocket not connected");
+            return;
+        }
+        historyChapter.current = chapterIndex;
+        setVersions(null);
+        ws.current.send(JSON.stringify({ type: 'list_versions', chapterIndex }));
+    };
+
+    const handleRestoreVersion = (versionId: string) => {
+        if (ws.current?.readyState !== WebSocket.OPEN) {
+            setLastError("WebSocket not connected");
+            return;
+        }
+        ws.current.send(JSON.stringify({ type: 'restore_version', versionId }));
+    };
+
+    const handleRewritePassage = (chapterIndex: number, passage: string, instruction: string) => {
+        if (ws.current?.readyState !== WebSocket.OPEN) {
+            setLastError("WebSocket not connected");
+            return;
+        }
+        const requestId = crypto.randomUUID();
+        setPassageSuggestion({ requestId, chapterIndex, passage, replacement: "", status: 'streaming' });
+        ws.current.send(JSON.stringify({ type: 'rewrite_passage', requestId, chapterIndex, passage, instruction }));
+    };
+
+    const handleResolvePassage = (accept: boolean) => {
+        if (accept && passageSuggestion?.status === 'ready' && ws.current?.readyState === WebSocket.OPEN) {
+            const { chapterIndex, passage, replacement } = passageSuggestion;
+            ws.current.send(JSON.stringify({ type: 'apply_passage', chapterIndex, passage, replacement }));
+        }
+        setPassageSuggestion(null);
+    };
+
+    const handleUpdateOutline = (chapters: OutlineEdit[]) => {
+        if (ws.current?.readyState !== WebSocket.OPEN) {
+            setLastError("WebSocket not connected");
+            return;
+        }
+        ws.current.send(JSON.stringify({ type: 'update_outline', chapters }));
+    };
+
+    const handleResolveProposal = (accept: boolean) => {
+        if (ws.current?.readyState !== WebSocket.OPEN) return;
+        ws.current.send(JSON.stringify({ type: 'resolve_outline_proposal', accept }));
+    };
+
+    const handleSwitchChapter = (chapterIndex: number) => {
+        if (ws.current?.readyState !== WebSocket.OPEN) return;
+        setLastError(null);
+        ws.current.send(JSON.stringify({ type: 'switch_chapter', chapterIndex }));
+    };
+
+    const handleReopenChapter = (chapterIndex: number) => {
+        if (ws.current?.readyState !== WebSocket.OPEN) return;
+        setLastError(null);
+        ws.current.send(JSON.stringify({ type: 'reopen_chapter', chapterIndex }));
+    };
+
+    const handleRewriteChapter = (chapterIndex: number, instruction: string) => {
+        if (ws.current?.readyState !== WebSocket.OPEN) return;
+        setLastError(null);
+        setIsGenerating(true);
+        ws.current.send(JSON.stringify({ type: 'rewrite_chapter', chapterIndex, instruction }));
+    };
+
+    const handleEndRevision = (keep: boolean) => {
+        if (ws.current?.readyState !== WebSocket.OPEN) return;
+        if (!keep && !confirm("Discard this revision and keep the original chapter?")) return;
+        ws.current.send(JSON.stringify({ type: keep ? 'finish_revision' : 'cancel_revision' }));
+    };
+
     const handleExpandOutline = () => {
         if (!expandQuery.trim()) return;
         setLastError(null);
@@ -232,11 +382,22 @@ export const Workspace: React.FC<WorkspaceProps> = ({ sessionId, bookTitle }) =>
             </button>
 
             <div className="w-[450px] shrink-0 h-full relative z-50 transition-all shadow-[5px_0_30px_0_rgba(0,0,0,0.5)] bg-[#1c1917] flex flex-col">
+                {revision && mode === 'interview' && (
+                    <div className="shrink-0 flex items-center justify-between gap-3 px-6 py-3 bg-amber-900/40 border-b border-amber-500/20 text-amber-100">
+                        <span className="font-serif italic text-sm">Revising Chapter {revision.chapterIndex}</span>
+                        <button onClick={() => handleEndRevision(false)} className="text-[10px] font-bold uppercase tracking-wider text-stone-300 hover:text-white">
+                            Discard
+                        </button>
+                    </div>
+                )}
+                {outlineProposal && outline && (
+                    <OutlineProposalReview proposal={outlineProposal} outline={outline.chapters} onResolve={handleResolveProposal} />
+                )}
                 <ChatInterface 
                     messages={messages} 
                     onSendMessage={handleSendMessage} 
                     connected={connected}
-                    disabled={mode === 'writing' || isEndOfBook} 
+                    disabled={mode === 'writing' || isEndOfBook || !!outlineProposal} 
                     isAnalyzing={isAnalyzing || isExpanding}
                 /> 
 
@@ -252,7 +413,7 @@ export const Workspace: React.FC<WorkspaceProps> = ({ sessionId, bookTitle }) =>
                         {!isGenerating && !isEndOfBook && mode === 'writing' && (
                             <div className="flex items-center gap-3 mb-4 text-emerald-500">
                                 <CheckCircle2 size={18} />
-                                <span className="font-serif italic text-lg">Drafting Complete</span>
+                                <span className="font-serif italic text-lg">{revision ? `Chapter ${revision.chapterIndex} Revised` : "Drafting Complete"}</span>
                             </div>
                         )}
                         {isEndOfBook && (
@@ -310,6 +471,18 @@ export const Workspace: React.FC<WorkspaceProps> = ({ sessionId, bookTitle }) =>
                                         </div>
                                     )}
                                 </>
+                            ) : revision ? (
+                                <div className="flex gap-3">
+                                    <button onClick={() => handleEndRevision(false)} className="py-3 px-4 rounded bg-stone-800 text-stone-300 hover:text-white border border-white/5 uppercase text-xs font-bold tracking-wider">
+                                        Discard
+                                    </button>
+                                    <button onClick={handleRetry} className="flex-1 py-3 px-4 rounded bg-stone-800 text-stone-300 hover:text-white border border-white/5 uppercase text-xs font-bold tracking-wider">
+                                        Retry
+                                    </button>
+                                    <button onClick={() => handleEndRevision(true)} className="flex-1 py-3 px-4 rounded bg-amber-700 text-white hover:bg-amber-600 shadow-lg uppercase text-xs font-bold tracking-wider flex items-center justify-center gap-2">
+                                        Keep Revision <CheckCircle2 size={16} />
+                                    </button>
+                                </div>
                             ) : (
                                 <div className="flex gap-3">
                                     <button onClick={handleRetry} className="flex-1 py-3 px-4 rounded bg-stone-800 text-stone-300 hover:text-white border border-white/5 uppercase text-xs font-bold tracking-wider">
@@ -336,6 +509,9 @@ export const Workspace: React.FC<WorkspaceProps> = ({ sessionId, bookTitle }) =>
                         <button onClick={() => setViewMode('map')} className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-all ${viewMode === 'map' ? 'bg-white text-stone-900 shadow-lg' : 'text-white/60 hover:text-white hover:bg-white/10'}`}>
                             <MapIcon size={14} /> <span>Map</span>
                         </button>
+                        <button onClick={() => setViewMode('archives')} className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-all ${viewMode === 'archives' ? 'bg-white text-stone-900 shadow-lg' : 'text-white/60 hover:text-white hover:bg-white/10'}`}>
+                            <Archive size={14} /> <span>Archives</span>
+                        </button>
                         <button onClick={() => setViewMode('book')} className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-all ${viewMode === 'book' ? 'bg-white text-stone-900 shadow-lg' : 'text-white/60 hover:text-white hover:bg-white/10'}`}>
                             <BookOpen size={14} /> <span>Manuscript</span>
                         </button>
@@ -343,16 +519,57 @@ export const Workspace: React.FC<WorkspaceProps> = ({ sessionId, bookTitle }) =>
                 </div>
 
                 <div className="flex-1 flex items-center justify-center relative p-12 overflow-hidden">
-                    <Notepad visible={viewMode === 'notepad'} notes={notes} outline={outline} onUpdateNote={handleManualNoteUpdate} />
+                    <Notepad 
+                        visible={viewMode === 'notepad'} 
+                        notes={notes} 
+                        people={people}
+                        messages={messages}
+                        archivedNotes={archivedNotes}
+                        onSearchNotes={handleSearchNotes}
+                        bookId={sessionId}
+                        outline={outline} 
+                        onNoteOp={handleNoteOp}
+                        canUndo={canUndoNotes}
+                        onUndo={handleUndoNote} 
+                        currentChapterIndex={currentChapterIndex}
+                        completedChapters={completedChapters}
+                        startedChapters={startedChapters}
+                        revisingChapterIndex={revision?.chapterIndex ?? null}
+                        canRevise={connected && !revision && !outlineProposal && !isGenerating && mode === 'interview'}
+                        onSwitchChapter={handleSwitchChapter}
+                        onReopenChapter={handleReopenChapter}
+                        onRewriteChapter={handleRewriteChapter}
+                        canEditOutline={connected && !revision && !outlineProposal}
+                        onUpdateOutline={handleUpdateOutline}
+                    />
                     
                     <div className={`transition-all duration-500 absolute inset-0 p-20 ${viewMode === 'map' ? 'opacity-100 z-30 scale-100' : 'opacity-0 -z-10 scale-95'}`}>
                         <div className="w-full h-full border-8 border-white shadow-2xl rounded-sm rotate-1 bg-[#e3dacb] relative">
-                             <div className="absolute -top-12 left-0 right-0 text-center"><span className="bg-black/40 text-white px-4 py-1 rounded-full text-sm backdrop-blur">Click to show Biographer</span></div>
-                             <MapSelector onLocationSelect={handleMapSelect} active={viewMode === 'map'} className="h-full w-full" />
+                             <div className="absolute -top-12 left-0 right-0 text-center"><span className="bg-black/40 text-white px-4 py-1 rounded-full text-sm backdrop-blur">Click the map to add a place you lived</span></div>
+                             <LifeTimeline userId={userId} active={viewMode === 'map'} onError={setLastError} />
+                        </div>
+                    </div>
+
+                    <div className={`transition-all duration-500 absolute inset-0 p-20 ${viewMode === 'archives' ? 'opacity-100 z-30 scale-100' : 'opacity-0 -z-10 scale-95'}`}>
+                        <div className="w-full h-full border-8 border-white shadow-2xl rounded-sm -rotate-1 bg-[#e3dacb] relative">
+                             <Archives active={viewMode === 'archives'} onError={setLastError} />
                         </div>
                     </div>
 
-                    <BookCanvas visible={viewMode === 'book'} content={manuscript} chapterTitle={bookTitle || "My Story"} isGenerating={isGenerating} />
+                    <BookCanvas 
+                        visible={viewMode === 'book'} 
+                        content={manuscript} 
+                        chapterTitle={bookTitle || "My Story"} 
+                        isGenerating={isGenerating} 
+                        chapters={chapters}
+                        onSaveChapter={handleSaveChapter}
+                        versions={versions}
+                        onLoadVersions={handleLoadVersions}
+                        onRestoreVersion={handleRestoreVersion}
+                        passageSuggestion={passageSuggestion}
+                        onRewritePassage={handleRewritePassage}
+                        onResolvePassage={handleResolvePassage}
+                    />
                 </div>
             </div>
         </div>
@@ -1,11 +1,79 @@
 // frontend/src/utils/api.ts
+import type { ApiErrorCode, ApiIssue, ApiResponse, DocumentUploadResponse, SuccessResponse } from '../../../backend/src/api/types';
+
+export type * from '../../../backend/src/api/types';
 
 // This defaults to localhost if the Env var isn't set (e.g. in local dev)
 export const API_BASE_URL = import.meta.env.VITE_API_URL || 'https://cf-ai-autobiography-backend.omkarmamid3145.workers.dev';
 
+// Device access token issued at onboarding. It is the only proof this browser owns the user's books.
+const TOKEN_KEY = 'cf_ai_token';
+
+export const getAccessToken = () => localStorage.getItem(TOKEN_KEY) || '';
+export const setAccessToken = (token: string) => localStorage.setItem(TOKEN_KEY, token);
+
+// fetch() against the backend with the access token attached
+export const apiFetch = (path: string, init: RequestInit = {}) => {
+    const headers = new Headers(init.headers);
+    headers.set('Authorization', `Bearer ${getAccessToken()}`);
+    return fetch(`${API_BASE_URL}${path}`, { ...init, headers });
+};
+
+// The error envelope of a failed API call
+export class ApiRequestError extends Error {
+    status: number;
+    code: ApiErrorCode;
+    issues: ApiIssue[];
+
+    constructor(status: number, code: ApiErrorCode, message: string, issues: ApiIssue[] = []) {
+        super(message);
+        this.status = status;
+        this.code = code;
+        this.issues = issues;
+    }
+}
+
+// JSON call typed against the backend's request/response types. FormData bodies are sent as multipart.
+// Resolves to the success body, throws ApiRequestError otherwise.
+export async function apiJson<Res extends SuccessResponse, Req = never>(path: string, method = 'GET', body?: Req): Promise<Res> {
+    const isForm = body instanceof FormData;
+    const res = await apiFetch(path, {
+        method,
+        headers: body === undefined || isForm ? undefined : { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : isForm ? body : JSON.stringify(body)
+    });
+    const data = await res.json().catch(() => null) as ApiResponse<Res> | null;
+    if (!data) throw new ApiRequestError(res.status, 'INTERNAL', `Unexpected response (${res.status})`);
+    if (!data.success) throw new ApiRequestError(res.status, data.error.code, data.error.message, data.error.issues);
+    return data;
+}
+
+// File types the server can extract text from (see backend/src/extract.ts)
+export const DOCUMENT_ACCEPT = '.pdf,.docx,.txt,.md,.markdown,.epub';
+
+const documentForm = (file: File, replace: boolean) => {
+    const form = new FormData();
+    form.set('file', file);
+    form.set('replace', String(replace));
+    return form;
+};
+
+// Uploads an original to the archives, asking before replacing one with the same name.
+// Resolves to null if the user chose to keep the existing document.
+export async function uploadDocument(file: File): Promise<DocumentUploadResponse | null> {
+    try {
+        return await apiJson<DocumentUploadResponse, FormData>('/api/documents', 'POST', documentForm(file, false));
+    } catch (e) {
+        if (!(e instanceof ApiRequestError) || e.code !== 'CONFLICT') throw e;
+        if (!confirm(`${e.message} Replace it?`)) return null;
+        return apiJson<DocumentUploadResponse, FormData>('/api/documents', 'POST', documentForm(file, true));
+    }
+}
+
 export const getWsUrl = (sessionId: string) => {
     // Convert http(s) to ws(s)
     const protocol = API_BASE_URL.startsWith('https') ? 'wss' : 'ws';
     const host = API_BASE_URL.replace(/^https?:\/\//, '');
-    return `${protocol}://${host}/api/session/${sessionId}/connect`;
+    // Browsers can't set headers on a WebSocket, so the token goes in the query
+    return `${protocol}://${host}/api/session/${sessionId}/connect?token=${encodeURIComponent(getAccessToken())}`;
 };
\ No newline at end of file
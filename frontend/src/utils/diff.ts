@@ -0,0 +1,84 @@
+export interface DiffPart {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+// Largest LCS table diffed in one go (16 MB). A chapter regenerated from scratch shares little with the draft
+// before it, and two ~5k-word drafts would need ~100M cells, so those are matched paragraph by paragraph first.
+const MAX_CELLS = 4_000_000;
+
+// Words and the whitespace between them, so joining the tokens gives back the original text
+const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) || [];
+
+// Paragraphs with the blank lines that follow them, joining back the same way
+const paragraphs = (text: string) => text.split(/(?<=\n\s*\n)(?=\S)/).filter(Boolean);
+
+const push = (parts: DiffPart[], type: DiffPart['type'], text: string) => {
+    if (!text) return;
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) last.text += text;
+    else parts.push({ type, text });
+};
+
+// LCS diff of two token lists. Common head and tail are trimmed first, since versions of a chapter
+// usually differ in a few places only. Null when what is left is too large for the table.
+function diffTokens(a: string[], b: string[]): DiffPart[] | null {
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+    const rows = endA - start;
+    const cols = endB - start;
+    if ((rows + 1) * (cols + 1) > MAX_CELLS) return null;
+
+    const parts: DiffPart[] = [];
+    push(parts, 'same', a.slice(0, start).join(''));
+
+    // lcs[i][j] = longest common subsequence of a[start+i..endA) and b[start+j..endB)
+    const lcs = new Uint32Array((rows + 1) * (cols + 1));
+    const at = (i: number, j: number) => i * (cols + 1) + j;
+    for (let i = rows - 1; i >= 0; i--) {
+        for (let j = cols - 1; j >= 0; j--) {
+            lcs[at(i, j)] = a[start + i] === b[start + j]
+                ? lcs[at(i + 1, j + 1)] + 1
+                : Math.max(lcs[at(i + 1, j)], lcs[at(i, j + 1)]);
+        }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows && j < cols) {
+        if (a[start + i] === b[start + j]) { push(parts, 'same', a[start + i]); i++; j++; }
+        else if (lcs[at(i + 1, j)] >= lcs[at(i, j + 1)]) { push(parts, 'removed', a[start + i]); i++; }
+        else { push(parts, 'added', b[start + j]); j++; }
+    }
+    while (i < rows) { push(parts, 'removed', a[start + i]); i++; }
+    while (j < cols) { push(parts, 'added', b[start + j]); j++; }
+
+    push(parts, 'same', a.slice(endA).join(''));
+    return parts;
+}
+
+// Word-level diff of two drafts. Drafts too far apart for that are matched by paragraph, and the
+// paragraphs that changed are diffed word by word where they fit; the rest shows as removed and added whole.
+export function diffWords(before: string, after: string): DiffPart[] {
+    const byWord = diffTokens(tokenize(before), tokenize(after));
+    if (byWord) return byWord;
+
+    const byParagraph = diffTokens(paragraphs(before), paragraphs(after)) ?? [{ type: 'removed', text: before }, { type: 'added', text: after }];
+    const parts: DiffPart[] = [];
+    for (let k = 0; k < byParagraph.length; k++) {
+        const part = byParagraph[k];
+        const next = byParagraph[k + 1];
+        const rewritten = part.type === 'removed' && next?.type === 'added' ? diffTokens(tokenize(part.text), tokenize(next.text)) : null;
+        if (rewritten) {
+            rewritten.forEach(p => push(parts, p.type, p.text));
+            k++;
+        } else {
+            push(parts, part.type, part.text);
+        }
+    }
+    return parts;
+}
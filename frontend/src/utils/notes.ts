@@ -0,0 +1,3 @@
+// frontend/src/utils/notes.ts
+// The notes model and how a change the session sends applies, shared with the backend
+export * from '../../../backend/src/api/notes';
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { diffWords, type DiffPart } from '../src/utils/diff';
+
+// Each side of a diff, put back together
+const sides = (parts: DiffPart[]) => ({
+    before: parts.filter(p => p.type !== 'added').map(p => p.text).join(''),
+    after: parts.filter(p => p.type !== 'removed').map(p => p.text).join('')
+});
+
+// A draft of `count` paragraphs of `words` distinct words each
+const draft = (label: string, count: number, words = 50) => Array.from({ length: count }, (_, p) =>
+    Array.from({ length: words }, (_, w) => `${label}${p}w${w}`).join(' ')).join('\n\n');
+
+describe('diffWords', () => {
+    it('marks the words that changed between two drafts', () => {
+        expect(diffWords('We moved to Pune in 1980.\n\nFather worked at the mill.', 'We moved to Bombay in 1981.\n\nFather worked at the mill.')).toEqual([
+            { type: 'same', text: 'We moved to ' },
+            { type: 'removed', text: 'Pune' },
+            { type: 'added', text: 'Bombay' },
+            { type: 'same', text: ' in ' },
+            { type: 'removed', text: '1980.' },
+            { type: 'added', text: '1981.' },
+            { type: 'same', text: '\n\nFather worked at the mill.' }
+        ]);
+    });
+
+    it('shows a chapter regenerated from scratch as removed and added whole, without a table per word pair', () => {
+        const before = draft('old', 100);
+        const after = draft('new', 100);
+
+        const started = performance.now();
+        const parts = diffWords(before, after);
+        expect(performance.now() - started).toBeLessThan(1000);
+        expect(parts).toEqual([{ type: 'removed', text: before }, { type: 'added', text: after }]);
+    });
+
+    it('keeps the paragraphs two long drafts share and diffs the others word by word', () => {
+        const middle = draft('kept', 80);
+        const before = `${draft('opening', 10)}\n\n${middle}\n\nThe end came in May, 1990.`;
+        const after = `${draft('intro', 10)}\n\n${middle}\n\nThe end came in June, 1990.`;
+
+        const parts = diffWords(before, after);
+        expect(sides(parts)).toEqual({ before, after });
+        expect(parts.slice(-4)).toEqual([
+            { type: 'same', text: `\n\n${middle}\n\nThe end came in ` },
+            { type: 'removed', text: 'May,' },
+            { type: 'added', text: 'June,' },
+            { type: 'same', text: ' 1990.' }
+        ]);
+    });
+});
@@ -4,4 +4,10 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // The notes model is shared with the backend (see src/utils/notes.ts)
+  server: {
+    fs: {
+      allow: ['.', '../backend/src/api'],
+    },
+  },
 })